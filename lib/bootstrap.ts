@@ -80,11 +80,17 @@ $injector.require("nodeModulesBuilder", "./tools/node-modules/node-modules-build
 
 $injector.require("pluginVariablesService", "./services/plugin-variables-service");
 $injector.require("pluginsService", "./services/plugins-service");
+$injector.require("pluginCreateService", "./services/plugin-create-service");
 $injector.requireCommand("plugin|*list", "./commands/plugin/list-plugins");
 $injector.requireCommand("plugin|add", "./commands/plugin/add-plugin");
 $injector.requireCommand("plugin|install", "./commands/plugin/add-plugin");
 $injector.requireCommand("plugin|remove", "./commands/plugin/remove-plugin");
 $injector.requireCommand("plugin|update", "./commands/plugin/update-plugin");
+$injector.requireCommand("plugin|info", "./commands/plugin/info-plugin");
+$injector.requireCommand("plugin|check", "./commands/plugin/check-plugins");
+$injector.requireCommand("plugin|create", "./commands/plugin/create-plugin");
+$injector.requireCommand("plugin|link", "./commands/plugin/link-plugin");
+$injector.requireCommand("plugin|unlink", "./commands/plugin/unlink-plugin");
 
 $injector.require("doctorService", "./services/doctor-service");
 $injector.require("xcprojService", "./services/xcproj-service");
@@ -96,6 +102,9 @@ $injector.requireCommand("init", "./commands/init");
 
 $injector.require("infoService", "./services/info-service");
 $injector.requireCommand("info", "./commands/info");
+$injector.requireCommand("dependencies", "./commands/dependencies");
+$injector.require("appSizeService", "./services/app-size-service");
+$injector.requireCommand("size", "./commands/size");
 
 $injector.require("androidToolsInfo", "./android-tools-info");
 
@@ -121,6 +130,9 @@ $injector.requireCommand("update", "./commands/update");
 
 $injector.require("iOSLogFilter", "./services/ios-log-filter");
 $injector.require("projectChangesService", "./services/project-changes-service");
+$injector.require("buildArtifactsCacheService", "./services/build-artifacts-cache-service");
+$injector.require("projectIgnoreService", "./services/project-ignore-service");
+$injector.require("projectQualifiersService", "./services/project-qualifiers-service");
 
 $injector.require("emulatorPlatformService", "./services/emulator-platform-service");
 
@@ -2,7 +2,8 @@ export class BuildCommandBase {
 	constructor(protected $options: IOptions,
 		protected $projectData: IProjectData,
 		protected $platformsData: IPlatformsData,
-		protected $platformService: IPlatformService) {
+		protected $platformService: IPlatformService,
+		protected $appSizeService: IAppSizeService) {
 		this.$projectData.initializeProjectData();
 	}
 
@@ -10,11 +11,14 @@ export class BuildCommandBase {
 		let platform = args[0].toLowerCase();
 		const appFilesUpdaterOptions: IAppFilesUpdaterOptions = { bundle: this.$options.bundle, release: this.$options.release };
 		await this.$platformService.preparePlatform(platform, appFilesUpdaterOptions, this.$options.platformTemplate, this.$projectData, { provision: this.$options.provision, sdk: this.$options.sdk });
+		// The application package is always built clean, but it is restored from the build cache unless --clean is passed explicitly.
+		const skipBuildCache = !!this.$options.clean;
 		this.$options.clean = true;
 		const buildConfig: IBuildConfig = {
 			buildForDevice: this.$options.forDevice,
 			projectDir: this.$options.path,
 			clean: this.$options.clean,
+			skipBuildCache,
 			teamId: this.$options.teamId,
 			device: this.$options.device,
 			provision: this.$options.provision,
@@ -25,6 +29,10 @@ export class BuildCommandBase {
 			keyStorePassword: this.$options.keyStorePassword
 		};
 		await this.$platformService.buildPlatform(platform, buildConfig, this.$projectData);
+		if (this.$options.release) {
+			await this.$appSizeService.checkBudget(platform, buildConfig, this.$projectData);
+		}
+
 		if (this.$options.copyTo) {
 			this.$platformService.copyLastOutput(platform, this.$options.copyTo, buildConfig, this.$projectData);
 		}
@@ -37,8 +45,9 @@ export class BuildIosCommand extends BuildCommandBase implements ICommand {
 	constructor(protected $options: IOptions,
 		$projectData: IProjectData,
 		$platformsData: IPlatformsData,
-		$platformService: IPlatformService) {
-		super($options, $projectData, $platformsData, $platformService);
+		$platformService: IPlatformService,
+		$appSizeService: IAppSizeService) {
+		super($options, $projectData, $platformsData, $platformService, $appSizeService);
 	}
 
 	public async execute(args: string[]): Promise<void> {
@@ -59,8 +68,9 @@ export class BuildAndroidCommand extends BuildCommandBase implements ICommand {
 		$projectData: IProjectData,
 		$platformsData: IPlatformsData,
 		private $errors: IErrors,
-		$platformService: IPlatformService) {
-		super($options, $projectData, $platformsData, $platformService);
+		$platformService: IPlatformService,
+		$appSizeService: IAppSizeService) {
+		super($options, $projectData, $platformsData, $platformService, $appSizeService);
 	}
 
 	public async execute(args: string[]): Promise<void> {
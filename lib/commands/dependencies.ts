@@ -0,0 +1,148 @@
+import * as path from "path";
+import { NodeModulesDependenciesBuilder } from "../tools/node-modules/node-modules-dependencies-builder";
+
+export class DependenciesCommand implements ICommand {
+	public allowedParameters: ICommandParameter[] = [];
+
+	constructor(private $injector: IInjector,
+		private $errors: IErrors,
+		private $logger: ILogger,
+		private $options: IOptions,
+		private $projectData: IProjectData) {
+		this.$projectData.initializeProjectData();
+	}
+
+	public async execute(args: string[]): Promise<void> {
+		let dependenciesBuilder: INodeModulesDependenciesBuilder = this.$injector.resolve(NodeModulesDependenciesBuilder, {});
+		let dependencies = dependenciesBuilder.getProductionDependencies(this.$projectData.projectDir);
+		let duplicates = this.getDuplicates(dependencies);
+		let warnings = dependenciesBuilder.getWarnings();
+
+		if (this.$options.why) {
+			this.printDependencyChains(this.$options.why, dependencies);
+		} else if (this.$options.json) {
+			this.$logger.out(JSON.stringify({
+				dependencies: _.map(dependencies, dependency => this.toJson(dependency)),
+				duplicates,
+				warnings
+			}, null, 2));
+		} else {
+			this.printDependencyTree(dependencies, duplicates, warnings);
+		}
+	}
+
+	private printDependencyTree(dependencies: IResolvedDependencyData[], duplicates: IDictionary<string[]>, warnings: IDependencyWarning[]): void {
+		if (!dependencies.length) {
+			this.$logger.out("The project does not have production dependencies.");
+			return;
+		}
+
+		this.$logger.out(`${this.$projectData.projectName} (${dependencies.length} packages are copied to tns_modules)`);
+		this.printChildren(this.$projectData.projectDir, dependencies, duplicates, "", []);
+
+		if (!_.isEmpty(duplicates)) {
+			this.$logger.out();
+			this.$logger.warn("The following packages are included in multiple versions:");
+			_.each(duplicates, (versions: string[], name: string) => this.$logger.warn(`  ${name}: ${versions.join(", ")}`));
+		}
+
+		if (warnings.length) {
+			this.$logger.out();
+			_.each(warnings, warning => this.$logger.warn(warning.message));
+		}
+	}
+
+	private printChildren(parentDirectory: string, dependencies: IResolvedDependencyData[], duplicates: IDictionary<string[]>, indent: string, printedDirectories: string[]): void {
+		let children = _.filter(dependencies, dependency => _.includes(dependency.requiredBy, parentDirectory));
+		_.each(children, (dependency, index) => {
+			let isLast = index === children.length - 1;
+			let isPrinted = _.includes(printedDirectories, dependency.directory);
+			let labels = [`depth ${dependency.depth}`, this.getRelativeDirectory(dependency)];
+			if (dependency.nativescript) {
+				labels.push("NativeScript plugin".cyan.toString());
+			}
+
+			if (duplicates[dependency.name]) {
+				labels.push("multiple versions".yellow.toString());
+			}
+
+			let dedupedLabel = isPrinted ? " (deduped)" : "";
+			this.$logger.out(`${indent}${isLast ? "└── " : "├── "}${dependency.name}@${dependency.version}${dedupedLabel} - ${labels.join(", ")}`);
+
+			// Each package is expanded only once, which also prevents endless recursion in circular dependencies.
+			if (!isPrinted) {
+				printedDirectories.push(dependency.directory);
+				this.printChildren(dependency.directory, dependencies, duplicates, `${indent}${isLast ? "    " : "│   "}`, printedDirectories);
+			}
+		});
+	}
+
+	private printDependencyChains(packageName: string, dependencies: IResolvedDependencyData[]): void {
+		let packageDependencies = _.filter(dependencies, dependency => dependency.name === packageName);
+		if (!packageDependencies.length) {
+			this.$errors.failWithoutHelp(`${packageName} is not copied to tns_modules as it is not a production dependency of the project.`);
+		}
+
+		let chains = _.flatten(_.map(packageDependencies, dependency => this.getDependencyChains(dependency, dependencies, [])));
+		if (this.$options.json) {
+			this.$logger.out(JSON.stringify({
+				package: packageName,
+				chains: _.map(chains, chain => _.map(chain, dependency => this.toJson(dependency)))
+			}, null, 2));
+			return;
+		}
+
+		_.each(chains, chain => {
+			let chainNames = _.map(chain, dependency => `${dependency.name}@${dependency.version}`);
+			this.$logger.out([this.$projectData.projectName].concat(chainNames).join(" > "));
+		});
+	}
+
+	/**
+	 * Gets all paths from the project to a dependency. Each path is a list of dependencies, starting with a direct dependency of the project.
+	 */
+	private getDependencyChains(dependency: IResolvedDependencyData, dependencies: IResolvedDependencyData[], visitedDirectories: string[]): IResolvedDependencyData[][] {
+		if (_.includes(visitedDirectories, dependency.directory)) {
+			return [];
+		}
+
+		return _.flatten(_.map(dependency.requiredBy, (requiredBy: string) => {
+			if (requiredBy === this.$projectData.projectDir) {
+				return [[dependency]];
+			}
+
+			let dependent = _.find(dependencies, d => d.directory === requiredBy);
+			let dependentChains = dependent ? this.getDependencyChains(dependent, dependencies, visitedDirectories.concat(dependency.directory)) : [];
+			return _.map(dependentChains, chain => chain.concat(dependency));
+		}));
+	}
+
+	private getDuplicates(dependencies: IResolvedDependencyData[]): IDictionary<string[]> {
+		let duplicates: IDictionary<string[]> = {};
+		_.each(_.groupBy(dependencies, dependency => dependency.name), (packages: IResolvedDependencyData[], name: string) => {
+			let versions = _.uniq(_.map(packages, dependency => dependency.version));
+			if (versions.length > 1) {
+				duplicates[name] = versions;
+			}
+		});
+
+		return duplicates;
+	}
+
+	private getRelativeDirectory(dependency: IResolvedDependencyData): string {
+		return path.relative(this.$projectData.projectDir, dependency.directory) || ".";
+	}
+
+	private toJson(dependency: IResolvedDependencyData): any {
+		return {
+			name: dependency.name,
+			version: dependency.version,
+			directory: dependency.directory,
+			depth: dependency.depth,
+			isPlugin: !!dependency.nativescript,
+			requiredBy: dependency.requiredBy
+		};
+	}
+}
+
+$injector.registerCommand("dependencies", DependenciesCommand);
@@ -0,0 +1,31 @@
+import { createTable } from "../../common/helpers";
+
+export class CheckPluginsCommand implements ICommand {
+	public allowedParameters: ICommandParameter[] = [];
+
+	constructor(private $pluginsService: IPluginsService,
+		private $projectData: IProjectData,
+		private $options: IOptions,
+		private $logger: ILogger,
+		private $errors: IErrors) {
+			this.$projectData.initializeProjectData();
+		}
+
+	public async execute(args: string[]): Promise<void> {
+		let issues = await this.$pluginsService.checkPlugins(this.$projectData);
+		if (this.$options.json) {
+			this.$logger.out(JSON.stringify({ issues }, null, 2));
+		} else if (issues.length) {
+			let issuesTable = createTable(["Platform", "Plugins", "Problem"], _.map(issues, issue => [issue.platform || "", issue.plugins.join(", "), issue.message]));
+			this.$logger.out(issuesTable.toString());
+		} else {
+			this.$logger.out("The installed plugins are compatible with the installed platforms and with each other.");
+		}
+
+		if (issues.length) {
+			this.$errors.failWithoutHelp(`Found ${issues.length} problem(s) with the installed plugins.`);
+		}
+	}
+}
+
+$injector.registerCommand("plugin|check", CheckPluginsCommand);
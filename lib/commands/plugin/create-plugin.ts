@@ -0,0 +1,25 @@
+export class CreatePluginCommand implements ICommand {
+	public allowedParameters: ICommandParameter[] = [this.$stringParameterBuilder.createMandatoryParameter("Plugin name cannot be empty.")];
+
+	constructor(private $pluginCreateService: IPluginCreateService,
+		private $options: IOptions,
+		private $stringParameterBuilder: IStringParameterBuilder) { }
+
+	public async execute(args: string[]): Promise<void> {
+		await this.$pluginCreateService.createPlugin({
+			pluginName: args[0],
+			pathToPlugin: this.$options.path,
+			variables: this.getVariables(),
+			ignoreScripts: this.$options.ignoreScripts
+		});
+	}
+
+	/**
+	 * Gets the variables passed with --var.<Name> <Default Value>. A variable passed without a value has no default value.
+	 */
+	private getVariables(): IStringDictionary {
+		return _.mapValues(<IDictionary<any>>this.$options.var, value => value === true || value === undefined || value === null ? "" : value.toString());
+	}
+}
+
+$injector.registerCommand("plugin|create", CreatePluginCommand);
@@ -0,0 +1,71 @@
+import { createTable } from "../../common/helpers";
+
+export class InfoPluginCommand implements ICommand {
+	public allowedParameters: ICommandParameter[] = [];
+
+	constructor(private $pluginsService: IPluginsService,
+		private $projectData: IProjectData,
+		private $options: IOptions,
+		private $logger: ILogger,
+		private $errors: IErrors) {
+			this.$projectData.initializeProjectData();
+		}
+
+	public async execute(args: string[]): Promise<void> {
+		let pluginInfo = await this.$pluginsService.getPluginInfo(args[0], this.$projectData);
+		if (this.$options.json) {
+			this.$logger.out(JSON.stringify(pluginInfo, null, 2));
+			return;
+		}
+
+		let source = pluginInfo.isInstalled ? "installed in the project" : "resolved by npm";
+		this.$logger.out(`${pluginInfo.name} ${pluginInfo.version} (${source})`);
+		if (!pluginInfo.isPlugin) {
+			this.$logger.warn(`${pluginInfo.name} is not a NativeScript plugin. Its package.json does not have a nativescript key.`);
+			return;
+		}
+
+		let platformsTable = createTable(["Platform", "Supported", "Minimum runtime version"], _.map(pluginInfo.platforms, platformInfo => [
+			platformInfo.platform,
+			platformInfo.isSupported ? "Yes" : "No",
+			platformInfo.minimumRuntimeVersion || ""
+		]));
+		this.$logger.out(platformsTable.toString());
+
+		this.$logger.out();
+		if (pluginInfo.variables.length) {
+			this.$logger.out("Variables:");
+			let variablesTable = createTable(["Variable", "Default value", "Current value"], _.map(pluginInfo.variables, variableInfo => [
+				variableInfo.name,
+				this.formatValue(variableInfo.defaultValue),
+				this.formatValue(variableInfo.value)
+			]));
+			this.$logger.out(variablesTable.toString());
+		} else {
+			this.$logger.out("The plugin does not declare any variables.");
+		}
+
+		this.$logger.out();
+		let nativeContentsData = _.flatten(_.map(pluginInfo.platforms, platformInfo => _.map(platformInfo.nativeContents, nativeContent => [platformInfo.platform, nativeContent.type, nativeContent.path])));
+		if (nativeContentsData.length) {
+			this.$logger.out("Native contents:");
+			this.$logger.out(createTable(["Platform", "Type", "Path"], nativeContentsData).toString());
+		} else {
+			this.$logger.out("The plugin does not contain native code.");
+		}
+	}
+
+	public async canExecute(args: string[]): Promise<boolean> {
+		if (!args[0]) {
+			this.$errors.fail("You must specify plugin name.");
+		}
+
+		return true;
+	}
+
+	private formatValue(value: string): string {
+		return value === null ? "" : value.toString();
+	}
+}
+
+$injector.registerCommand("plugin|info", InfoPluginCommand);
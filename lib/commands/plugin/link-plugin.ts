@@ -0,0 +1,23 @@
+export class LinkPluginCommand implements ICommand {
+	public allowedParameters: ICommandParameter[] = [];
+
+	constructor(private $pluginsService: IPluginsService,
+		private $projectData: IProjectData,
+		private $errors: IErrors) {
+			this.$projectData.initializeProjectData();
+		}
+
+	public async execute(args: string[]): Promise<void> {
+		return this.$pluginsService.link(args[0], this.$projectData);
+	}
+
+	public async canExecute(args: string[]): Promise<boolean> {
+		if (!args[0]) {
+			this.$errors.fail("You must specify the path to the plugin.");
+		}
+
+		return true;
+	}
+}
+
+$injector.registerCommand("plugin|link", LinkPluginCommand);
@@ -0,0 +1,28 @@
+export class UnlinkPluginCommand implements ICommand {
+	public allowedParameters: ICommandParameter[] = [];
+
+	constructor(private $pluginsService: IPluginsService,
+		private $projectData: IProjectData,
+		private $errors: IErrors) {
+			this.$projectData.initializeProjectData();
+		}
+
+	public async execute(args: string[]): Promise<void> {
+		return this.$pluginsService.unlink(args[0], this.$projectData);
+	}
+
+	public async canExecute(args: string[]): Promise<boolean> {
+		if (!args[0]) {
+			this.$errors.fail("You must specify plugin name.");
+		}
+
+		let pluginName = args[0].toLowerCase();
+		if (!_.some(this.$pluginsService.getLinkedPlugins(this.$projectData), linkedPlugin => linkedPlugin.name.toLowerCase() === pluginName)) {
+			this.$errors.failWithoutHelp(`Plugin "${pluginName}" is not linked to the project.`);
+		}
+
+		return true;
+	}
+}
+
+$injector.registerCommand("plugin|unlink", UnlinkPluginCommand);
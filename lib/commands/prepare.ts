@@ -1,20 +1,98 @@
 export class PrepareCommand implements ICommand {
-	public allowedParameters = [this.$platformCommandParameter];
+	private static MAX_EXPLAINED_FILES_PER_CHANGE = 10;
+
+	public allowedParameters: ICommandParameter[] = [];
 
 	constructor(private $options: IOptions,
 		private $platformService: IPlatformService,
+		private $pluginsService: IPluginsService,
 		private $projectData: IProjectData,
+		private $logger: ILogger,
+		private $errors: IErrors,
 		private $platformCommandParameter: ICommandParameter) {
 			this.$projectData.initializeProjectData();
 		}
 
 	public async execute(args: string[]): Promise<void> {
-		const appFilesUpdaterOptions: IAppFilesUpdaterOptions = { bundle: this.$options.bundle, release: this.$options.release };
-		await this.$platformService.preparePlatform(args[0], appFilesUpdaterOptions, this.$options.platformTemplate, this.$projectData, { provision: this.$options.provision, sdk: this.$options.sdk });
+		const platforms = this.getPlatforms(args);
+		if (platforms.length > 1) {
+			// Install the dependencies once, so the parallel prepares do not run npm install concurrently.
+			await this.$pluginsService.ensureAllDependenciesAreInstalled(this.$projectData);
+		}
+
+		const results = await Promise.all(_.map(platforms, platform => this.preparePlatform(platform)));
+		if (this.$options.explain) {
+			for (let result of results) {
+				await this.explain(result.platform, result.changesInfo, platforms.length > 1);
+			}
+		}
 	}
 
 	public async canExecute(args: string[]): Promise<boolean> {
-		return await this.$platformCommandParameter.validate(args[0]) && await this.$platformService.validateOptions(this.$options.provision, this.$projectData, args[0]);
+		if (args.length > 1) {
+			this.$errors.fail("This command accepts only one argument - the platform to prepare.");
+		}
+
+		const platforms = this.getPlatforms(args);
+		if (!platforms.length) {
+			this.$errors.failWithoutHelp("There are no installed platforms to prepare. Specify the platform to prepare or add one with `tns platform add <Platform>`.");
+		}
+
+		for (let platform of platforms) {
+			if (!await this.$platformCommandParameter.validate(platform) || !await this.$platformService.validateOptions(this.$options.provision, this.$projectData, platform)) {
+				return false;
+			}
+		}
+
+		return true;
+	}
+
+	private getPlatforms(args: string[]): string[] {
+		return args[0] ? [args[0]] : this.$platformService.getInstalledPlatforms(this.$projectData);
+	}
+
+	private async preparePlatform(platform: string): Promise<{ platform: string, changesInfo: IProjectChangesInfo }> {
+		const appFilesUpdaterOptions: IAppFilesUpdaterOptions = { bundle: this.$options.bundle, release: this.$options.release };
+		const changesInfo = await this.$platformService.preparePlatform(platform, appFilesUpdaterOptions, this.$options.platformTemplate, this.$projectData, { provision: this.$options.provision, sdk: this.$options.sdk });
+		return { platform: platform.toLowerCase(), changesInfo };
+	}
+
+	private async explain(platform: string, changesInfo: IProjectChangesInfo, printPlatform: boolean): Promise<void> {
+		if (printPlatform) {
+			this.$logger.out(`${platform}:`);
+		}
+
+		let reasons = changesInfo.reasons;
+		if (!reasons || !reasons.length) {
+			this.$logger.out("Prepare is not needed, there are no changes since the previous one.");
+		} else {
+			this.$logger.out("Prepare is needed because of the following changes:");
+			_.each(_.groupBy(reasons, reason => reason.changeType), (changeReasons: IProjectChangeReason[], changeType: string) => {
+				this.$logger.out(`  ${changeType}:`);
+				_.each(_.take(changeReasons, PrepareCommand.MAX_EXPLAINED_FILES_PER_CHANGE), reason => {
+					this.$logger.out(`    ${reason.file ? `${reason.file}: ` : ""}${reason.description}`);
+				});
+
+				if (changeReasons.length > PrepareCommand.MAX_EXPLAINED_FILES_PER_CHANGE) {
+					this.$logger.out(`    ... and ${changeReasons.length - PrepareCommand.MAX_EXPLAINED_FILES_PER_CHANGE} more.`);
+				}
+			});
+		}
+
+		const buildConfig: IBuildConfig = {
+			buildForDevice: this.$options.forDevice,
+			projectDir: this.$options.path,
+			release: this.$options.release,
+			provision: this.$options.provision,
+			teamId: this.$options.teamId,
+			device: this.$options.device
+		};
+		let buildReason = await this.$platformService.getBuildReason(platform, this.$projectData, buildConfig, changesInfo);
+		if (buildReason) {
+			this.$logger.out(`Native build is needed: ${buildReason}`);
+		} else {
+			this.$logger.out("Native build is not needed.");
+		}
 	}
 }
 
@@ -0,0 +1,99 @@
+import { createTable } from "../common/helpers";
+
+export class SizeCommand implements ICommand {
+	private static MAX_PRINTED_ARCHIVE_ENTRIES = 20;
+
+	public allowedParameters: ICommandParameter[] = [];
+
+	constructor(private $appSizeService: IAppSizeService,
+		private $errors: IErrors,
+		private $fs: IFileSystem,
+		private $logger: ILogger,
+		private $options: IOptions,
+		private $platformCommandParameter: ICommandParameter,
+		private $projectData: IProjectData) {
+		this.$projectData.initializeProjectData();
+	}
+
+	public async execute(args: string[]): Promise<void> {
+		const buildConfig: IBuildConfig = {
+			buildForDevice: this.$options.forDevice,
+			projectDir: this.$options.path,
+			release: this.$options.release
+		};
+		let report = await this.$appSizeService.getAppSizeReport(args[0], buildConfig, this.$projectData);
+		let changes = this.$options.compare ? this.$appSizeService.compareReports(this.readReport(this.$options.compare), report) : null;
+
+		if (this.$options.json) {
+			this.$logger.out(JSON.stringify(changes ? _.extend({ changes }, report) : report, null, 2));
+			return;
+		}
+
+		this.printReport(report);
+		if (changes) {
+			this.$logger.out();
+			this.printChanges(changes);
+		}
+	}
+
+	public async canExecute(args: string[]): Promise<boolean> {
+		if (!args || args.length !== 1) {
+			this.$errors.fail("This command accepts only one argument - the platform whose app is measured.");
+		}
+
+		return this.$platformCommandParameter.validate(args[0]);
+	}
+
+	private readReport(reportPath: string): IAppSizeReport {
+		if (!this.$fs.exists(reportPath)) {
+			this.$errors.failWithoutHelp(`The report ${reportPath} does not exist. Save a report with \`tns size <Platform> --json > ${reportPath}\`.`);
+		}
+
+		return this.$fs.readJson(reportPath);
+	}
+
+	private printReport(report: IAppSizeReport): void {
+		let formatSize = (size: number) => this.$appSizeService.formatSize(size);
+		this.$logger.out(`The app for ${report.platform} is ${formatSize(report.appSize)}.`);
+		let table = createTable(["Part", "Size"], [
+			["App code", formatSize(report.appCodeSize)],
+			["App_Resources", formatSize(report.appResourcesSize)],
+			["tns_modules", formatSize(report.tnsModulesSize)]
+		]);
+		this.$logger.out(table.toString());
+
+		if (report.packages.length) {
+			this.$logger.out();
+			this.$logger.out("Packages in tns_modules:");
+			let packagesTable = createTable(["Package", "Version", "Size"], _.map(report.packages, packageEntry => [packageEntry.name, packageEntry.version || "", formatSize(packageEntry.size)]));
+			this.$logger.out(packagesTable.toString());
+		}
+
+		this.$logger.out();
+		if (!report.build) {
+			this.$logger.out(`The project is not built for ${report.platform}, so the size of the application package is not measured.`);
+			return;
+		}
+
+		this.$logger.out(`The application package ${report.build.packagePath} is ${formatSize(report.build.size)}.`);
+		let printedEntries = _.take(report.build.entries, SizeCommand.MAX_PRINTED_ARCHIVE_ENTRIES);
+		let entriesTable = createTable(["Entry", "Size", "Compressed size"], _.map(printedEntries, entry => [entry.name, formatSize(entry.size), formatSize(entry.compressedSize)]));
+		this.$logger.out(entriesTable.toString());
+		if (report.build.entries.length > printedEntries.length) {
+			this.$logger.out(`... and ${report.build.entries.length - printedEntries.length} more entries. Use --json to list all of them.`);
+		}
+	}
+
+	private printChanges(changes: IAppSizeChange[]): void {
+		let formatSize = (size: number) => size === null ? "-" : this.$appSizeService.formatSize(size);
+		this.$logger.out(`Changes since ${this.$options.compare}:`);
+		let table = createTable(["Part", "Previous size", "Current size", "Change"], _.map(changes, change => {
+			let difference = (change.currentSize || 0) - (change.previousSize || 0);
+			let formattedDifference = `${difference > 0 ? "+" : ""}${formatSize(difference)}`;
+			return [change.name, formatSize(change.previousSize), formatSize(change.currentSize), difference > 0 ? formattedDifference.red.toString() : formattedDifference];
+		}));
+		this.$logger.out(table.toString());
+	}
+}
+
+$injector.registerCommand("size", SizeCommand);
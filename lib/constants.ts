@@ -16,12 +16,60 @@ export const TEST_RUNNER_NAME = "nativescript-unit-test-runner";
 export const LIVESYNC_EXCLUDED_FILE_PATTERNS = ["**/*.js.map", "**/*.ts"];
 export const XML_FILE_EXTENSION = ".xml";
 export const PLATFORMS_DIR_NAME = "platforms";
+export const APP_FILES_INFO_FILE_NAME = ".nsappfilesinfo";
+export const PREPARED_CONFIGURATIONS_DIR_NAME = ".nsconfigurations";
+export const TNS_MODULES_INFO_FILE_NAME = ".nstnsmodulesinfo";
+export const NATIVE_PLUGINS_INFO_FILE_NAME = ".nsnativepluginsinfo";
+export const PODS_INFO_FILE_NAME = ".nspodsinfo";
+export const LINKED_PLUGINS_KEY_NAME = "linkedPlugins";
 
 export class PackageVersion {
 	static NEXT = "next";
 	static LATEST = "latest";
 }
 
+/**
+ * The stages of the prepare pipeline, in the order of their execution.
+ */
+export class PrepareStages {
+	static COPY_APP_FILES = "copyAppFiles";
+	static COPY_APP_RESOURCES = "copyAppResources";
+	static PROCESS_TNS_MODULES = "processTnsModules";
+	static PREPARE_PLUGINS = "preparePlugins";
+	static PROCESS_PLATFORM_SPECIFIC_FILES = "processPlatformSpecificFiles";
+	static PROCESS_CONFIGURATION_FILES = "processConfigurationFiles";
+}
+
+/**
+ * The types of the warnings about the production dependencies of a project.
+ */
+export class DependencyWarningTypes {
+	static CYCLE = "cycle";
+	static UNMET_PEER_DEPENDENCY = "unmetPeerDependency";
+	static VERSION_CONFLICT = "versionConflict";
+}
+
+/**
+ * The types of the values of the plugin variables.
+ */
+export class PluginVariableTypes {
+	static STRING = "string";
+	static NUMBER = "number";
+	static BOOLEAN = "boolean";
+}
+
+/**
+ * The types of the problems found by the audit of the installed plugins.
+ */
+export class PluginCheckIssueTypes {
+	static UNSUPPORTED_PLATFORM = "unsupportedPlatform";
+	static INCOMPATIBLE_RUNTIME = "incompatibleRuntime";
+	static MISSING_VARIABLE = "missingVariable";
+	static INVALID_VARIABLE = "invalidVariable";
+	static DUPLICATE_LIBRARY = "duplicateLibrary";
+	static CONFLICTING_POD = "conflictingPod";
+}
+
 export const PackageJsonKeysToKeep: Array<String> = ["name", "main", "android", "version"];
 
 export class SaveOptions {
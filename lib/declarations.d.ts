@@ -27,11 +27,32 @@ interface IDependencyData {
 	devDependencies?: IStringDictionary;
 }
 
+/**
+ * Describes a production dependency of the project, as it is found by the node modules dependencies builder.
+ */
+interface IResolvedDependencyData extends IDependencyData {
+	/**
+	 * The real path to the directory of the package.
+	 */
+	directory: string;
+
+	/**
+	 * 0 for the packages copied as top-level modules of tns_modules. The packages copied inside the directory of their parent have its depth + 1.
+	 */
+	depth: number;
+
+	/**
+	 * The directories of the packages which require the package. The direct dependencies are required by the project directory.
+	 */
+	requiredBy: string[];
+}
+
 interface IStaticConfig extends Config.IStaticConfig { }
 
 interface IConfiguration extends Config.IConfig {
 	ANDROID_DEBUG_UI: string;
 	USE_POD_SANDBOX: boolean;
+	BUILD_CACHE_DIR: string;
 	debugLivesync: boolean;
 }
 
@@ -135,6 +156,12 @@ interface IOptions extends ICommonOptions, IBundle, IPlatformTemplate, IEmulator
 	syncAllFiles: boolean;
 	liveEdit: boolean;
 	chrome: boolean;
+	explain: boolean;
+	buildCache: string;
+	why: string;
+	qualifiers: string;
+	compare: string;
+	forcePods: boolean;
 }
 
 interface IAndroidBuildOptionsSettings extends IAndroidReleaseOptions, IRelease { }
@@ -0,0 +1,149 @@
+/**
+ * Describes the size of a part of the application.
+ */
+interface IAppSizeEntry {
+	/**
+	 * The name of the part - a file inside the application package or a package copied to tns_modules.
+	 */
+	name: string;
+
+	/**
+	 * The size in bytes.
+	 */
+	size: number;
+}
+
+/**
+ * Describes the size of a package copied to tns_modules.
+ */
+interface IAppSizePackageEntry extends IAppSizeEntry {
+	/**
+	 * The version of the package as resolved by the dependency graph. It is null for files which are not attributed to a production dependency.
+	 */
+	version: string;
+}
+
+/**
+ * Describes the size of a file inside the built application package.
+ */
+interface IAppSizeArchiveEntry extends IAppSizeEntry {
+	/**
+	 * The size of the file after compression in bytes.
+	 */
+	compressedSize: number;
+}
+
+/**
+ * Describes the size of the built application package.
+ */
+interface IAppSizeBuildReport {
+	/**
+	 * Full path to the .apk, .ipa or .app.
+	 */
+	packagePath: string;
+
+	/**
+	 * The size of the package in bytes.
+	 */
+	size: number;
+
+	/**
+	 * The files inside the package, largest first.
+	 */
+	entries: IAppSizeArchiveEntry[];
+}
+
+/**
+ * Describes the size of the prepared app and of the built application package of a platform.
+ */
+interface IAppSizeReport {
+	platform: string;
+
+	/**
+	 * The size of the app directory in the native project in bytes.
+	 */
+	appSize: number;
+
+	/**
+	 * The size of the code of the app, i.e. everything except App_Resources and tns_modules, in bytes.
+	 */
+	appCodeSize: number;
+
+	/**
+	 * The size of the App_Resources of the platform in bytes.
+	 */
+	appResourcesSize: number;
+
+	/**
+	 * The size of tns_modules in bytes.
+	 */
+	tnsModulesSize: number;
+
+	/**
+	 * The packages in tns_modules, largest first.
+	 */
+	packages: IAppSizePackageEntry[];
+
+	/**
+	 * The size of the built application package. It is null when the platform is not built.
+	 */
+	build: IAppSizeBuildReport;
+}
+
+/**
+ * Describes the difference between two app size reports.
+ */
+interface IAppSizeChange {
+	/**
+	 * The name of the measured part, e.g. "App_Resources" or the name of a package.
+	 */
+	name: string;
+
+	/**
+	 * The size in the previous report in bytes or null when the part is new.
+	 */
+	previousSize: number;
+
+	/**
+	 * The size in the current report in bytes or null when the part is removed.
+	 */
+	currentSize: number;
+}
+
+/**
+ * Measures the size of the prepared and the built application.
+ */
+interface IAppSizeService {
+	/**
+	 * Measures the app directory of a prepared platform and, when the platform is built, the latest application package.
+	 * @param {string} platform The platform whose app is measured.
+	 * @param {IBuildConfig} buildConfig Specifies which application package is measured - for device or for emulator, debug or release.
+	 * @param {IProjectData} projectData DTO with information about the project.
+	 * @returns {Promise<IAppSizeReport>} The sizes of the parts of the app.
+	 */
+	getAppSizeReport(platform: string, buildConfig: IBuildConfig, projectData: IProjectData): Promise<IAppSizeReport>;
+
+	/**
+	 * Compares the total sizes and the sizes of the packages in two reports.
+	 * @param {IAppSizeReport} previousReport The report of a previous release.
+	 * @param {IAppSizeReport} currentReport The report of the current app.
+	 * @returns {IAppSizeChange[]} The sizes of the total, app code, App_Resources, tns_modules, application package and of each package which has changed.
+	 */
+	compareReports(previousReport: IAppSizeReport, currentReport: IAppSizeReport): IAppSizeChange[];
+
+	/**
+	 * Fails when the latest application package of a platform is larger than the budget set in the package.json of the project.
+	 * @param {string} platform The platform whose application package is checked.
+	 * @param {IBuildConfig} buildConfig Specifies which application package is checked.
+	 * @param {IProjectData} projectData DTO with information about the project.
+	 * @returns {Promise<void>}
+	 */
+	checkBudget(platform: string, buildConfig: IBuildConfig, projectData: IProjectData): Promise<void>;
+
+	/**
+	 * Formats a size in bytes, e.g. 1.5 MB.
+	 * @param {number} size The size in bytes.
+	 * @returns {string} The formatted size.
+	 */
+	formatSize(size: number): string;
+}
@@ -45,9 +45,17 @@ interface IPlatformService extends NodeJS.EventEmitter {
 	 * @param {IProjectData} projectData DTO with information about the project.
 	 * @param {IPlatformSpecificData} platformSpecificData Platform specific data required for project preparation.
 	 * @param {Array} filesToSync Files about to be synced to device.
-	 * @returns {boolean} true indicates that the platform was prepared.
+	 * @returns {IProjectChangesInfo} The changes of the platform which have been prepared. They should be passed to the consecutive build and livesync steps.
 	 */
-	preparePlatform(platform: string, appFilesUpdaterOptions: IAppFilesUpdaterOptions, platformTemplate: string, projectData: IProjectData, platformSpecificData: IPlatformSpecificData, filesToSync?: Array<String>): Promise<boolean>;
+	preparePlatform(platform: string, appFilesUpdaterOptions: IAppFilesUpdaterOptions, platformTemplate: string, projectData: IProjectData, platformSpecificData: IPlatformSpecificData, filesToSync?: Array<String>): Promise<IProjectChangesInfo>;
+
+	/**
+	 * Adds a handler to one of the stages of the prepare pipeline. The stages are described by the PrepareStages constants.
+	 * The handlers of a stage are called in the order of their registration. A stage and its handlers are skipped when the changes since the previous prepare do not affect it.
+	 * @param {IPrepareStageHandler} handler The handler to add.
+	 * @returns {void}
+	 */
+	registerPrepareStageHandler(handler: IPrepareStageHandler): void;
 
 	/**
 	 * Determines whether a build is necessary. A build is necessary when one of the following is true:
@@ -56,9 +64,20 @@ interface IPlatformService extends NodeJS.EventEmitter {
 	 * @param {string} platform The platform to build.
 	 * @param {IProjectData} projectData DTO with information about the project.
 	 * @param {IBuildConfig} buildConfig Indicates whether the build is for device or emulator.
+	 * @param {IProjectChangesInfo} changesInfo The changes of the latest prepare of the platform, if it has been prepared by the current process.
 	 * @returns {boolean} true indicates that the platform should be build.
 	 */
-	shouldBuild(platform: string, projectData: IProjectData, buildConfig?: IBuildConfig): Promise<boolean>;
+	shouldBuild(platform: string, projectData: IProjectData, buildConfig?: IBuildConfig, changesInfo?: IProjectChangesInfo): Promise<boolean>;
+
+	/**
+	 * Gets the reason for which a build is necessary. Used by shouldBuild and for explaining the build decision to the user.
+	 * @param {string} platform The platform to build.
+	 * @param {IProjectData} projectData DTO with information about the project.
+	 * @param {IBuildConfig} buildConfig Indicates whether the build is for device or emulator.
+	 * @param {IProjectChangesInfo} changesInfo The changes of the latest prepare of the platform, if it has been prepared by the current process.
+	 * @returns {string} Description of the reason, or null when build is not necessary.
+	 */
+	getBuildReason(platform: string, projectData: IProjectData, buildConfig?: IBuildConfig, changesInfo?: IProjectChangesInfo): Promise<string>;
 
 	/**
 	 * Builds the native project for the specified platform for device or emulator.
@@ -236,15 +255,214 @@ interface IPlatformsData {
 }
 
 interface INodeModulesBuilder {
-	prepareNodeModules(absoluteOutputPath: string, platform: string, lastModifiedTime: Date, projectData: IProjectData): Promise<void>;
+	prepareNodeModules(absoluteOutputPath: string, platform: string, projectData: IProjectData, appFilesUpdaterOptions: IAppFilesUpdaterOptions): Promise<void>;
+
+	/**
+	 * Copies the production dependencies of the project to the tns_modules directory of the native project.
+	 * Only the packages whose version or contents have changed since the previous copy are copied again.
+	 * @param {IAppFilesUpdaterOptions} appFilesUpdaterOptions The configuration which is prepared. The files copied from the packages depend on it.
+	 * @returns {Promise<IResolvedDependencyData[]>} The production dependencies of the project.
+	 */
+	copyNodeModules(absoluteOutputPath: string, platform: string, projectData: IProjectData, appFilesUpdaterOptions: IAppFilesUpdaterOptions): Promise<IResolvedDependencyData[]>;
+
+	/**
+	 * Prepares the native code of the plugins among the production dependencies of the project.
+	 * @returns {Promise<void>}
+	 */
+	preparePlugins(productionDependencies: IResolvedDependencyData[], platform: string, projectData: IProjectData): Promise<void>;
 	cleanNodeModules(absoluteOutputPath: string, platform: string): void;
 }
 
 interface INodeModulesDependenciesBuilder {
-	getProductionDependencies(projectPath: string): void;
+	getProductionDependencies(projectPath: string): IResolvedDependencyData[];
+
+	/**
+	 * Gets the peer dependencies of NativeScript plugins, which are not installed or whose installed versions are not in the required ranges.
+	 * @returns {IUnmetPeerDependency[]} The unmet peer dependencies found by the latest getProductionDependencies call.
+	 */
+	getUnmetPeerDependencies(): IUnmetPeerDependency[];
+
+	/**
+	 * Gets the problems found in the production dependencies - cycles, unmet peer dependencies of plugins and packages which cannot be included in multiple versions.
+	 * @returns {IDependencyWarning[]} The warnings found by the latest getProductionDependencies call.
+	 */
+	getWarnings(): IDependencyWarning[];
+}
+
+/**
+ * Describes a problem with the production dependencies of a project.
+ */
+interface IDependencyWarning {
+	/**
+	 * The type of the problem, one of the DependencyWarningTypes constants.
+	 */
+	type: string;
+
+	/**
+	 * Description of the problem.
+	 */
+	message: string;
+
+	/**
+	 * The names of the packages involved. For cycles these are the packages in the cycle, starting and ending with the same package.
+	 */
+	packages: string[];
+}
+
+/**
+ * Describes a peer dependency of a NativeScript plugin which is not satisfied by the production dependencies of the project.
+ */
+interface IUnmetPeerDependency {
+	/**
+	 * The name of the plugin.
+	 */
+	name: string;
+
+	/**
+	 * The installed version of the plugin.
+	 */
+	version: string;
+
+	/**
+	 * The name of the peer dependency.
+	 */
+	peerDependencyName: string;
+
+	/**
+	 * The version range of the peer dependency, required by the plugin.
+	 */
+	range: string;
+
+	/**
+	 * The version of the peer dependency, resolved for the plugin. null when the peer dependency is not installed.
+	 */
+	installedVersion: string;
 }
 
 interface IBuildInfo {
 	prepareTime: string;
 	buildTime: string;
 }
+
+/**
+ * Describes a content-addressed cache of the application packages produced by native builds.
+ * The cache is enabled when a cache directory is set with the --build-cache option or the BUILD_CACHE_DIR configuration value.
+ */
+interface IBuildArtifactsCacheService {
+	/**
+	 * The full path of the cache directory. null when the cache is not enabled.
+	 */
+	cacheDirectoryPath: string;
+
+	/**
+	 * Calculates the fingerprint of a build, based on the contents of the prepared native project, the runtime version, the signing inputs and the build configuration.
+	 * @param {string} platform The platform which will be built.
+	 * @param {IProjectData} projectData DTO with information about the project.
+	 * @param {IBuildConfig} buildConfig The build configuration.
+	 * @returns {string} The fingerprint or null when the cache is not enabled.
+	 */
+	getFingerprint(platform: string, projectData: IProjectData, buildConfig: IBuildConfig): string;
+
+	/**
+	 * Copies the cached application package for a fingerprint to the build output directory.
+	 * @param {string} fingerprint The fingerprint of the build.
+	 * @param {string} buildOutputPath The directory where the build places the application package.
+	 * @returns {boolean} true if the application package has been restored, false if it is not cached.
+	 */
+	restoreArtifact(fingerprint: string, buildOutputPath: string): boolean;
+
+	/**
+	 * Adds an application package to the cache.
+	 * @param {string} fingerprint The fingerprint of the build which has produced the package.
+	 * @param {string} packagePath The full path of the application package (.apk, .app or .ipa).
+	 * @returns {void}
+	 */
+	storeArtifact(fingerprint: string, packagePath: string): void;
+}
+
+/**
+ * Describes the data passed to the handlers of the prepare stages.
+ */
+interface IPrepareStageData {
+	/**
+	 * The name of the stage which is currently executed.
+	 */
+	stage: string;
+
+	/**
+	 * The platform which is prepared.
+	 */
+	platform: string;
+
+	/**
+	 * Information about the native project of the platform.
+	 */
+	platformData: IPlatformData;
+
+	/**
+	 * DTO with information about the project.
+	 */
+	projectData: IProjectData;
+
+	/**
+	 * The changes since the previous prepare. null when the whole project is prepared.
+	 */
+	changesInfo: IProjectChangesInfo;
+
+	appFilesUpdaterOptions: IAppFilesUpdaterOptions;
+
+	platformSpecificData: IPlatformSpecificData;
+
+	/**
+	 * Full path of the app directory in the native project.
+	 */
+	appDestinationDirectoryPath: string;
+
+	/**
+	 * Files about to be synced to device. Empty when prepare is not started by livesync.
+	 */
+	filesToSync: string[];
+
+	/**
+	 * Full paths of the files in the native project which have been processed by the current stage. Empty before the stage is executed.
+	 * For the processTnsModules and preparePlugins stages use the dependencies instead.
+	 */
+	files: string[];
+
+	/**
+	 * The production dependencies of the project. Set by the processTnsModules stage.
+	 */
+	dependencies: IResolvedDependencyData[];
+}
+
+/**
+ * Describes a handler of a prepare stage.
+ */
+interface IPrepareStageHandler {
+	/**
+	 * The name of the stage, one of the PrepareStages constants.
+	 */
+	stage: string;
+
+	/**
+	 * Called before the stage is executed.
+	 * @param {IPrepareStageData} data Information about the prepare.
+	 * @returns {Promise<void>}
+	 */
+	before?(data: IPrepareStageData): Promise<void>;
+
+	/**
+	 * Called for each of the files processed by the stage. The file can be modified in place.
+	 * @param {string} filePath Full path of the file in the native project.
+	 * @param {IPrepareStageData} data Information about the prepare.
+	 * @returns {Promise<void>}
+	 */
+	transformFile?(filePath: string, data: IPrepareStageData): Promise<void>;
+
+	/**
+	 * Called after the stage is executed and its files are transformed.
+	 * @param {IPrepareStageData} data Information about the prepare.
+	 * @returns {Promise<void>}
+	 */
+	after?(data: IPrepareStageData): Promise<void>;
+}
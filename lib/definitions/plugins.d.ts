@@ -3,6 +3,16 @@ interface IPluginsService {
 	remove(pluginName: string, projectData: IProjectData): Promise<void>; // removes plugin only by name
 	getAvailable(filter: string[]): Promise<IDictionary<any>>; // gets all available plugins
 	prepare(pluginData: IDependencyData, platform: string, projectData: IProjectData): Promise<void>;
+
+	/**
+	 * Removes the native code of a plugin from the native project of a platform.
+	 * @param {IDependencyData} dependencyData The plugin. Its directory is used when it is set, so the native code of plugins which are no longer installed can be removed.
+	 * @param {string} platform The platform whose native project is modified.
+	 * @param {IProjectData} projectData DTO with information about the project.
+	 * @returns {Promise<void>}
+	 */
+	removeNativeCode(dependencyData: IDependencyData, platform: string, projectData: IProjectData): Promise<void>;
+
 	getAllInstalledPlugins(projectData: IProjectData): Promise<IPluginData[]>;
 	ensureAllDependenciesAreInstalled(projectData: IProjectData): Promise<void>;
 
@@ -13,6 +23,132 @@ interface IPluginsService {
 	 */
 	getDependenciesFromPackageJson(projectDir: string): IPackageJsonDepedenciesResult;
 	validate(platformData: IPlatformData, projectData: IProjectData): Promise<void>;
+
+	/**
+	 * Gets the NativeScript metadata and the native contents of a plugin.
+	 * The plugin installed in the project is inspected. When the plugin is not installed, it is installed by npm in a temporary directory.
+	 * @param {string} plugin The name of the plugin, optionally followed by @<version>.
+	 * @param {IProjectData} projectData DTO with information about the project.
+	 * @returns {Promise<IPluginInfo>}
+	 */
+	getPluginInfo(plugin: string, projectData: IProjectData): Promise<IPluginInfo>;
+
+	/**
+	 * Audits the installed plugins against the installed platforms and against each other.
+	 * @param {IProjectData} projectData DTO with information about the project.
+	 * @returns {Promise<IPluginCheckIssue[]>} The problems found. The array is empty when there are none.
+	 */
+	checkPlugins(projectData: IProjectData): Promise<IPluginCheckIssue[]>;
+
+	/**
+	 * Links a plugin from a local directory into the project. The directory is symlinked in node_modules, so the changes in it are used without reinstalling the plugin.
+	 * The dependency in the package.json of the project is replaced with a file: one and the previous one is saved, so it can be restored by unlink.
+	 * @param {string} pluginPath Path to the directory of the plugin.
+	 * @param {IProjectData} projectData DTO with information about the project.
+	 * @returns {Promise<void>}
+	 */
+	link(pluginPath: string, projectData: IProjectData): Promise<void>;
+
+	/**
+	 * Removes the link to the local directory of a plugin and installs the version of the plugin used before it was linked.
+	 * When the plugin was not a dependency of the project before it was linked, it is removed.
+	 * @param {string} pluginName The name of the linked plugin.
+	 * @param {IProjectData} projectData DTO with information about the project.
+	 * @returns {Promise<void>}
+	 */
+	unlink(pluginName: string, projectData: IProjectData): Promise<void>;
+
+	/**
+	 * Gets the plugins linked from local directories into the project.
+	 * @param {IProjectData} projectData DTO with information about the project.
+	 * @returns {ILinkedPluginData[]}
+	 */
+	getLinkedPlugins(projectData: IProjectData): ILinkedPluginData[];
+}
+
+interface ILinkedPluginData {
+	name: string;
+
+	/**
+	 * The full path to the local directory of the plugin.
+	 */
+	directory: string;
+
+	/**
+	 * The dependency of the project on the plugin before it was linked. It is null when the plugin was not a dependency.
+	 */
+	previousVersion: string;
+}
+
+interface IPluginCheckIssue {
+	/**
+	 * One of the PluginCheckIssueTypes.
+	 */
+	type: string;
+
+	/**
+	 * The platform which has the problem. It is null when the problem does not depend on the platform.
+	 */
+	platform: string;
+
+	/**
+	 * The names of the plugins involved in the problem.
+	 */
+	plugins: string[];
+
+	message: string;
+}
+
+interface IPluginInfo extends IBasePluginData {
+	/**
+	 * Whether the inspected plugin is the one installed in the project.
+	 */
+	isInstalled: boolean;
+
+	/**
+	 * Whether the package.json of the package has a nativescript key.
+	 */
+	isPlugin: boolean;
+
+	platforms: IPluginPlatformInfo[];
+	variables: IPluginVariableInfo[];
+}
+
+interface IPluginPlatformInfo {
+	platform: string;
+	isSupported: boolean;
+
+	/**
+	 * The minimum version of the runtime required by the plugin. It is null when the plugin does not declare one.
+	 */
+	minimumRuntimeVersion: string;
+
+	/**
+	 * The native files of the plugin in its platforms/<platform> directory.
+	 */
+	nativeContents: IPluginNativeContent[];
+}
+
+interface IPluginNativeContent {
+	/**
+	 * The kind of the file, for example Framework, Podfile or include.gradle.
+	 */
+	type: string;
+
+	/**
+	 * The path of the file relative to the platforms/<platform> directory of the plugin.
+	 */
+	path: string;
+}
+
+interface IPluginVariableInfo {
+	name: string;
+	defaultValue: string;
+
+	/**
+	 * The value of the variable saved in the package.json of the project.
+	 */
+	value: string;
 }
 
 interface IPackageJsonDepedenciesResult {
@@ -89,10 +225,88 @@ interface IPluginVariablesService {
 	 */
 	getPluginVariablePropertyName(pluginName: string): string;
 
+	/**
+	 * Gets the values of the plugin variables for the current build configuration.
+	 * The value of the environment variable declared by a plugin variable takes precedence over the value saved in package.json.
+	 * @param {IPluginData} pluginData for the plugin.
+	 * @param {IProjectData} projectData DTO with information about the project.
+	 * @return {IStringDictionary} The values of the variables which have a value.
+	 */
+	getPluginVariablesValues(pluginData: IPluginData, projectData: IProjectData): IStringDictionary;
+
+	/**
+	 * Checks a value against the type, enum and pattern declared by a plugin variable.
+	 * @param {IPluginData} pluginData for the plugin.
+	 * @param {string} pluginVariableName The name of the variable.
+	 * @param {string} value The non-empty value of the variable.
+	 * @return {string} The reason the value is invalid or null when it is valid.
+	 */
+	validatePluginVariableValue(pluginData: IPluginData, pluginVariableName: string, value: string): string;
 }
 
 interface IPluginVariableData {
 	defaultValue?: string;
 	name?: string;
 	value?: string;
+
+	/**
+	 * One of the PluginVariableTypes. The default is string.
+	 */
+	type?: string;
+
+	/**
+	 * A regular expression which the value must match.
+	 */
+	pattern?: string;
+
+	/**
+	 * The allowed values.
+	 */
+	enum?: string[];
+
+	/**
+	 * Whether the variable must have a value. The default is true.
+	 */
+	required?: boolean;
+
+	/**
+	 * Shown when the user is prompted for the value.
+	 */
+	description?: string;
+
+	/**
+	 * Whether the value is hidden in prompts, messages and command output.
+	 * Secret values read from the environment are not saved in package.json.
+	 */
+	secret?: boolean;
+
+	/**
+	 * The name of the environment variable from which the value is read.
+	 */
+	env?: string;
+}
+
+interface IPluginCreateService {
+	/**
+	 * Creates a NativeScript plugin with platform-specific entry points, native files for Android and iOS and a demo app which depends on the plugin.
+	 * @param {IPluginCreateSettings} pluginSettings Options describing the new plugin.
+	 * @returns {Promise<string>} The directory of the new plugin.
+	 */
+	createPlugin(pluginSettings: IPluginCreateSettings): Promise<string>;
+}
+
+interface IPluginCreateSettings {
+	pluginName: string;
+
+	/**
+	 * The directory in which the directory of the plugin is created. The default is the current directory.
+	 */
+	pathToPlugin?: string;
+
+	/**
+	 * The variables of the plugin and their default values. The variables without default value have an empty value.
+	 */
+	variables?: IStringDictionary;
+
+	ignoreScripts?: boolean;
 }
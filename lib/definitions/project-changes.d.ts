@@ -6,6 +6,73 @@ interface IPrepareInfo {
 	changesRequireBuildTime: string;
 
 	iOSProvisioningProfileUUID?: string;
+
+	/**
+	 * Name of the build configuration (debug/release, bundle and provision) the platform is currently prepared for.
+	 */
+	configuration?: string;
+
+	/**
+	 * The state of the latest prepare for each of the build configurations, keyed by configuration name.
+	 * The prepared app of the configurations other than the current one is staged, so switching back to them is incremental.
+	 */
+	configurations?: IDictionary<IPrepareConfigurationInfo>;
+
+	/**
+	 * Content hashes of the tracked project files (app files, App_Resources, package.json and the native files of the production dependencies),
+	 * keyed by their path relative to the project directory. Used to skip files whose timestamps moved but whose contents are unchanged.
+	 */
+	filesHashes?: IStringDictionary;
+
+	/**
+	 * The patterns of the app files which have been excluded from the prepared app. When they change, the app files are synced again.
+	 */
+	excludedPatterns?: string[];
+}
+
+/**
+ * Describes the state of the latest prepare for a single build configuration.
+ */
+interface IPrepareConfigurationInfo {
+	/**
+	 * The time of the prepare.
+	 */
+	time: string;
+
+	/**
+	 * The time of the prepare in milliseconds, used for comparing the modification times of the files.
+	 */
+	timestamp: number;
+
+	/**
+	 * Content hashes of the tracked project files at the time of the prepare.
+	 */
+	filesHashes: IStringDictionary;
+
+	/**
+	 * The patterns of the app files which have been excluded from the prepared app.
+	 */
+	excludedPatterns?: string[];
+}
+
+/**
+ * Describes a single reason for which prepare (or a subsequent native build) is needed.
+ */
+interface IProjectChangeReason {
+	/**
+	 * The property of IProjectChangesInfo which is set because of this reason, for example "appFilesChanged".
+	 */
+	changeType: string;
+
+	/**
+	 * Human readable description of the change.
+	 */
+	description: string;
+
+	/**
+	 * Path of the changed file relative to the project directory, in case the change is caused by a file.
+	 */
+	file?: string;
 }
 
 interface IProjectChangesInfo {
@@ -17,14 +84,36 @@ interface IProjectChangesInfo {
 	nativeChanged: boolean;
 	hasChanges: boolean;
 	changesRequireBuild: boolean;
+
+	/**
+	 * The reasons for which each of the changes is reported.
+	 */
+	reasons: IProjectChangeReason[];
+
+	/**
+	 * The prepare info which describes the state of the platform after the prepare. It is persisted by savePrepareInfo.
+	 */
+	prepareInfo: IPrepareInfo;
 }
 
-interface IProjectChangesOptions extends IAppFilesUpdaterOptions, IProvision {}
+interface IProjectChangesOptions extends IAppFilesUpdaterOptions, IProvision {
+	/**
+	 * The project-defined qualifiers selected for the prepare. Each selection is prepared as a separate configuration.
+	 */
+	qualifiers?: string[];
+}
 
 interface IProjectChangesService {
 	checkForChanges(platform: string, projectData: IProjectData, buildOptions: IProjectChangesOptions): IProjectChangesInfo;
 	getPrepareInfo(platform: string, projectData: IProjectData): IPrepareInfo;
-	savePrepareInfo(platform: string, projectData: IProjectData): void;
+	savePrepareInfo(platform: string, projectData: IProjectData, changesInfo: IProjectChangesInfo): void;
 	getPrepareInfoFilePath(platform: string, projectData: IProjectData): string;
-	currentChanges: IProjectChangesInfo;
+
+	/**
+	 * Gets the name of the build configuration described by the specified options, for example "debug", "release" or "release-bundle".
+	 * @param {string} platform The platform which is prepared.
+	 * @param {IProjectChangesOptions} projectChangesOptions Options of the prepare.
+	 * @returns {string} The name of the configuration.
+	 */
+	getPrepareConfiguration(platform: string, projectChangesOptions: IProjectChangesOptions): string;
 }
\ No newline at end of file
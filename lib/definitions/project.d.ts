@@ -107,6 +107,50 @@ interface IProjectDataService {
 	removeDependency(projectDir: string, dependencyName: string): void;
 }
 
+/**
+ * Describes the rules for the app files which are not copied to the native project and not synced to devices.
+ * The rules are read from the .nsignore file of the project and from the `exclude` property of the `nativescript` key in its package.json.
+ * Both support separate rules for the debug and release configurations.
+ */
+interface IProjectIgnoreService {
+	/**
+	 * Gets the glob patterns of the excluded app files for a configuration, including the files which are never shipped in release builds.
+	 * @param {string} projectDir The project directory - the place where the root package.json is located.
+	 * @param {boolean} release Whether the patterns are for the release configuration.
+	 * @returns {string[]} Patterns matching paths relative to the app directory.
+	 */
+	getExcludedPatterns(projectDir: string, release: boolean): string[];
+
+	/**
+	 * Checks whether an app file is excluded for a configuration.
+	 * @param {string} relativeFilePath Path of the file relative to the app directory of the project or of the native project.
+	 * @param {string} projectDir The project directory - the place where the root package.json is located.
+	 * @param {boolean} release Whether to check the rules of the release configuration.
+	 * @returns {boolean} true if the file should not be copied or synced.
+	 */
+	isExcluded(relativeFilePath: string, projectDir: string, release: boolean): boolean;
+}
+
+/**
+ * Describes the project-defined qualifiers in file names, e.g. main-page.tablet.xml or config.staging.json.
+ */
+interface IProjectQualifiersService {
+	/**
+	 * Gets the qualifier groups defined in the nativescript key of the package.json of the project.
+	 * @param {string} projectDir The project directory - the place where the root package.json is located.
+	 * @returns {IDictionary<string[]>} The values of each group. The first value of a group is its default.
+	 */
+	getQualifierGroups(projectDir: string): IDictionary<string[]>;
+
+	/**
+	 * Gets the qualifier selected for each group - the one passed with --qualifiers or the default of the group.
+	 * In a group which contains the debug or release qualifiers, the one of the build configuration is the default.
+	 * @param {string} projectDir The project directory - the place where the root package.json is located.
+	 * @returns {string[]} One selected value for each qualifier group.
+	 */
+	getSelectedQualifiers(projectDir: string): string[];
+}
+
 /**
  * Describes working with templates.
  */
@@ -133,6 +177,10 @@ interface IBuildForDevice {
 interface IBuildConfig extends IAndroidBuildOptionsSettings, IiOSBuildConfig {
 	projectDir: string;
 	clean?: boolean;
+	/**
+	 * Whether the application package must be built even if the build cache contains it. Defaults to the value of clean.
+	 */
+	skipBuildCache?: boolean;
 	architectures?: string[];
 	buildOutputStdio?: string;
 }
@@ -225,7 +273,16 @@ interface IPlatformProjectService extends NodeJS.EventEmitter {
 	removePluginNativeCode(pluginData: IPluginData, projectData: IProjectData): Promise<void>;
 
 	afterPrepareAllPlugins(projectData: IProjectData): Promise<void>;
-	beforePrepareAllPlugins(projectData: IProjectData, dependencies?: IDictionary<IDependencyData>): Promise<void>;
+
+	/**
+	 * Installs the native dependencies of the project which are not up to date. It is called on every prepare, even if the plugins have not changed.
+	 * iOS: runs pod install when the Podfiles or the Podfile.lock have changed since the last installation, the Pods directory does not match the Podfile.lock or --force-pods is passed.
+	 * @param {IProjectData} projectData DTO with information about the project.
+	 * @returns {void}
+	 */
+	installNativeDependencies(projectData: IProjectData): Promise<void>;
+
+	beforePrepareAllPlugins(projectData: IProjectData, dependencies?: IDependencyData[]): Promise<void>;
 
 	/**
 	 * Gets the path wheren App_Resources should be copied.
@@ -39,6 +39,12 @@ export class Options extends commonOptionsLibPath.OptionsBase {
 			liveEdit: { type: OptionType.Boolean },
 			chrome: { type: OptionType.Boolean },
 			clean: { type: OptionType.Boolean },
+			explain: { type: OptionType.Boolean },
+			buildCache: { type: OptionType.String },
+			why: { type: OptionType.String },
+			qualifiers: { type: OptionType.String },
+			compare: { type: OptionType.String },
+			forcePods: { type: OptionType.Boolean },
 			watch: { type: OptionType.Boolean, default: true }
 		},
 			path.join($hostInfo.isWindows ? process.env.AppData : path.join(osenv.home(), ".local/share"), ".nativescript-cli"),
@@ -5,6 +5,9 @@ import { ProjectFilesProviderBase } from "../common/services/project-files-provi
 
 export class ProjectFilesProvider extends ProjectFilesProviderBase {
 	constructor(private $platformsData: IPlatformsData,
+		private $projectData: IProjectData,
+		private $projectIgnoreService: IProjectIgnoreService,
+		private $projectQualifiersService: IProjectQualifiersService,
 		$mobileHelper: Mobile.IMobileHelper,
 		$options:IOptions) {
 			super($mobileHelper, $options);
@@ -38,8 +41,38 @@ export class ProjectFilesProvider extends ProjectFilesProviderBase {
 		return mappedFilePath;
 	}
 
+	public getProjectFileInfo(filePath: string, platform: string): IProjectFileInfo {
+		let projectFileInfo = super.getProjectFileInfo(filePath, platform);
+		let qualifierGroups = this.$projectQualifiersService.getQualifierGroups(this.$projectData.projectDir);
+		if (_.isEmpty(qualifierGroups) || this.isPackageFile(filePath)) {
+			return projectFileInfo;
+		}
+
+		// The project-defined qualifiers are removed from the name of the file even when it is not included, so its prepared path can still be mapped.
+		let selectedQualifiers = this.$projectQualifiersService.getSelectedQualifiers(this.$projectData.projectDir);
+		_.each(qualifierGroups, (values: string[]) => {
+			let regex = new RegExp(`^(.+?)[.](${_.map(values, value => _.escapeRegExp(value)).join("|")})([.].+?)$`, "i");
+			let parsed = projectFileInfo.onDeviceFileName.match(regex);
+			if (parsed) {
+				projectFileInfo.onDeviceFileName = parsed[1] + parsed[3];
+				projectFileInfo.shouldIncludeFile = projectFileInfo.shouldIncludeFile && _.includes(selectedQualifiers, parsed[2].toLowerCase());
+			}
+		});
+
+		return projectFileInfo;
+	}
+
 	public isFileExcluded(filePath: string): boolean {
-		return !!_.find(ProjectFilesProvider.INTERNAL_NONPROJECT_FILES, (pattern) => minimatch(filePath, pattern, { nocase: true }));
+		return !!_.find(ProjectFilesProvider.INTERNAL_NONPROJECT_FILES, (pattern) => minimatch(filePath, pattern, { nocase: true })) ||
+			(!!this.$projectData.projectDir && this.$projectIgnoreService.isExcluded(filePath, this.$projectData.projectDir, this.$options.release));
+	}
+
+	/**
+	 * The project-defined qualifiers are not applied to the files of the packages, which can have any names.
+	 */
+	private isPackageFile(filePath: string): boolean {
+		let pathSegments = path.relative(this.$projectData.projectDir, filePath).split(path.sep);
+		return _.includes(pathSegments, constants.TNS_MODULES_FOLDER_NAME) || _.includes(pathSegments, constants.NODE_MODULES_FOLDER_NAME);
 	}
 }
 $injector.register("projectFilesProvider", ProjectFilesProvider);
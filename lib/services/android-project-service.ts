@@ -2,6 +2,7 @@ import * as path from "path";
 import * as shell from "shelljs";
 import * as constants from "../constants";
 import * as semver from "semver";
+import * as crypto from "crypto";
 import * as projectServiceBaseLib from "./platform-project-service-base";
 import { DeviceAndroidDebugBridge } from "../common/mobile/android/device-android-debug-bridge";
 import { EOL } from "os";
@@ -373,26 +374,34 @@ export class AndroidProjectService extends projectServiceBaseLib.PlatformProject
 	}
 
 	public async removePluginNativeCode(pluginData: IPluginData, projectData: IProjectData): Promise<void> {
-		try {
-			// check whether the dependency that's being removed has native code
-			let pluginConfigDir = path.join(this.getPlatformData(projectData).projectRoot, "configurations", pluginData.name);
-			if (this.$fs.exists(pluginConfigDir)) {
-				await this.cleanProject(this.getPlatformData(projectData).projectRoot, projectData);
-			}
-		} catch (e) {
-			if (e.code === "ENOENT") {
-				this.$logger.debug("No native code jars found: " + e.message);
-			} else {
-				throw e;
-			}
-		}
+		// The project is cleaned after the plugins are prepared, if the native code of the plugins has changed.
+		let projectRoot = this.getPlatformData(projectData).projectRoot;
+		this.$fs.deleteDirectory(path.join(projectRoot, "configurations", pluginData.name));
+		this.$fs.deleteDirectory(path.join(projectRoot, "src", pluginData.name));
 	}
 
 	public async afterPrepareAllPlugins(projectData: IProjectData): Promise<void> {
-		return;
+		if (this.$config.debugLivesync) {
+			return;
+		}
+
+		// Gradle keeps the intermediates of removed and changed plugins, so the project is cleaned, but only when the native code of the plugins has changed.
+		let projectRoot = this.getPlatformData(projectData).projectRoot;
+		let nativePluginsInfoFilePath = path.join(projectRoot, constants.NATIVE_PLUGINS_INFO_FILE_NAME);
+		let previousNativePlugins = this.$fs.exists(nativePluginsInfoFilePath) ? this.$fs.readJson(nativePluginsInfoFilePath) : {};
+		let nativePlugins = this.getNativePlugins(projectRoot);
+		if (!_.isEqual(previousNativePlugins, nativePlugins)) {
+			this.$logger.trace(`The native code of the plugins has changed. Cleaning ${projectRoot}.`);
+			await this.cleanProject(projectRoot, projectData);
+			this.$fs.writeJson(nativePluginsInfoFilePath, nativePlugins);
+		}
 	}
 
-	public async beforePrepareAllPlugins(projectData: IProjectData, dependencies?: IDictionary<IDependencyData>): Promise<void> {
+	public installNativeDependencies(): Promise<void> {
+		return Promise.resolve();
+	}
+
+	public async beforePrepareAllPlugins(projectData: IProjectData, dependencies?: IDependencyData[]): Promise<void> {
 		if (!this.$config.debugLivesync) {
 			if (dependencies) {
 				let platformDir = path.join(projectData.platformsDir, "android");
@@ -403,15 +412,39 @@ export class AndroidProjectService extends projectServiceBaseLib.PlatformProject
 					try {
 						await this.spawn('node', [checkV8dependants, stringifiedDependencies, projectData.platformsDir], { stdio: "inherit" });
 					} catch (e) {
-						this.$logger.info("Checking for dependants on v8 public API failed. This is likely caused because of cyclic production dependencies. Error code: " + e.code + "\nMore information: https://github.com/NativeScript/nativescript-cli/issues/2561");
+						this.$logger.info("Checking for dependants on v8 public API failed. Error code: " + e.code + "\nMore information: https://github.com/NativeScript/nativescript-cli/issues/2561");
 					}
 				}
 			}
+		}
+	}
 
-			let projectRoot = this.getPlatformData(projectData).projectRoot;
-
-			await this.cleanProject(projectRoot, projectData);
+	/**
+	 * Gets a hash of the native code of each plugin - of its configurations/<plugin> and src/<plugin> directories in the native project.
+	 */
+	private getNativePlugins(projectRoot: string): IStringDictionary {
+		let nativePlugins: IStringDictionary = {};
+		let configurationsDirectoryPath = path.join(projectRoot, "configurations");
+		if (!this.$fs.exists(configurationsDirectoryPath)) {
+			return nativePlugins;
 		}
+
+		_.each(this.$fs.readDirectory(configurationsDirectoryPath), pluginName => {
+			let hash = crypto.createHash("sha1");
+			_.each([path.join(configurationsDirectoryPath, pluginName), path.join(projectRoot, "src", pluginName)], directoryPath => {
+				if (this.$fs.exists(directoryPath)) {
+					let files = _.sortBy(this.$fs.enumerateFilesInDirectorySync(directoryPath), file => path.relative(projectRoot, file));
+					_.each(files, file => {
+						hash.update(`${path.relative(projectRoot, file)}\n`);
+						hash.update(this.$fs.readFile(file));
+					});
+				}
+			});
+
+			nativePlugins[pluginName] = hash.digest("hex");
+		});
+
+		return nativePlugins;
 	}
 
 	public stopServices(projectRoot: string): Promise<ISpawnResult> {
@@ -7,12 +7,24 @@ export class AppFilesUpdater {
 	constructor(
 		private appSourceDirectoryPath: string,
 		private appDestinationDirectoryPath: string,
-		public options: { release: boolean; bundle: boolean },
-		public fs: IFileSystem
+		public options: { release: boolean; bundle: boolean; excludedPatterns?: string[] },
+		public fs: IFileSystem,
+		private appFilesInfoFilePath?: string,
+		private getPreparedFilePath?: (relativePath: string) => string
 	) {
 	}
 
 	public updateApp(beforeCopyAction: (sourceFiles: string[]) => void): void {
+		if (this.appFilesInfoFilePath && !this.options.bundle) {
+			this.syncApp(beforeCopyAction);
+			return;
+		}
+
+		if (this.appFilesInfoFilePath && this.fs.exists(this.appFilesInfoFilePath)) {
+			// The bundle has updated the destination app on its own, so the information about the synced files is no longer valid.
+			this.fs.deleteFile(this.appFilesInfoFilePath);
+		}
+
 		this.cleanDestinationApp();
 		const sourceFiles = this.resolveAppSourceFiles();
 
@@ -20,6 +32,98 @@ export class AppFilesUpdater {
 		this.copyAppSourceFiles(sourceFiles);
 	}
 
+	/**
+	 * Copies only the new and changed files from the source app and deletes the files that have been removed from it.
+	 * The state of the source files at the time of the previous sync is kept in the app files info file.
+	 * Falls back to cleaning the destination app and copying all files when there is no previous sync
+	 * or when a removed file cannot be found in the destination app. Platform specific files are renamed after they are copied,
+	 * so unless the names of the prepared files are known, their destination items cannot be found.
+	 */
+	protected syncApp(beforeCopyAction: (sourceFiles: string[]) => void): void {
+		const sourceFiles = this.resolveAppSourceFiles();
+		const previousFilesInfo: IStringDictionary = this.fs.exists(this.appFilesInfoFilePath) ? this.fs.readJson(this.appFilesInfoFilePath) : null;
+		let filesInfo: IStringDictionary = {};
+		_.each(sourceFiles, source => {
+			let relativePath = this.getRelativePath(source);
+			filesInfo[relativePath] = this.getSourceFileSignature(source);
+			// Only the empty directories are enumerated, so the rest are recorded through their files. This way removed and excluded directories are deleted as well.
+			for (let directory = path.dirname(relativePath); directory !== "."; directory = path.dirname(directory)) {
+				filesInfo[directory] = "";
+			}
+		});
+
+		let filesToCopy = sourceFiles;
+		if (previousFilesInfo && this.deleteRemovedFiles(previousFilesInfo, filesInfo)) {
+			filesToCopy = sourceFiles.filter(source => {
+				let relativePath = this.getRelativePath(source);
+				let destinationPath = this.getDestinationPath(relativePath, filesInfo[relativePath] === "");
+				return previousFilesInfo[relativePath] !== filesInfo[relativePath] || (destinationPath !== null && !this.destinationItemExists(destinationPath));
+			});
+		} else {
+			this.cleanDestinationApp();
+		}
+
+		beforeCopyAction(filesToCopy);
+		this.copyAppSourceFiles(filesToCopy);
+		this.fs.writeJson(this.appFilesInfoFilePath, filesInfo);
+	}
+
+	/**
+	 * Deletes the destination items of the source files which are not present anymore.
+	 * @returns {boolean} false when some of the removed files cannot be found in the destination app and it has to be synced from scratch.
+	 */
+	private deleteRemovedFiles(previousFilesInfo: IStringDictionary, filesInfo: IStringDictionary): boolean {
+		let removedItems = _.keys(previousFilesInfo).filter(relativePath => !_.has(filesInfo, relativePath)).sort();
+		let deletedDirectories: string[] = [];
+		for (let relativePath of removedItems) {
+			if (_.some(deletedDirectories, directory => _.startsWith(relativePath, directory + path.sep))) {
+				continue;
+			}
+
+			let destinationPath = this.getDestinationPath(relativePath, previousFilesInfo[relativePath] === "");
+			if (destinationPath === null) {
+				// The file is not included for the platform, so there is nothing to delete.
+				continue;
+			}
+
+			if (this.destinationItemExists(destinationPath)) {
+				this.deleteDestinationItem(destinationPath);
+				deletedDirectories.push(relativePath);
+			} else if (relativePath !== constants.APP_RESOURCES_FOLDER_NAME && !_.startsWith(relativePath, constants.APP_RESOURCES_FOLDER_NAME + path.sep)) {
+				// App_Resources are moved out of the destination app on each prepare, all other files are either renamed or excluded for the platform.
+				return false;
+			}
+		}
+
+		return true;
+	}
+
+	private getRelativePath(source: string): string {
+		return path.relative(this.appSourceDirectoryPath, source);
+	}
+
+	/**
+	 * Gets the path of the prepared item relative to the destination app, or null when the item is not included for the platform.
+	 * Only the files are renamed when the platform specific files are processed, the directories keep their names.
+	 */
+	private getDestinationPath(relativePath: string, isDirectory: boolean): string {
+		return this.getPreparedFilePath && !isDirectory ? this.getPreparedFilePath(relativePath) : relativePath;
+	}
+
+	private getSourceFileSignature(source: string): string {
+		let stats = fs.statSync(source);
+		return stats.isDirectory() ? "" : `${stats.size}:${stats.mtime.getTime()}`;
+	}
+
+	private destinationItemExists(relativePath: string): boolean {
+		try {
+			fs.lstatSync(path.join(this.appDestinationDirectoryPath, relativePath));
+			return true;
+		} catch (err) {
+			return false;
+		}
+	}
+
 	public cleanDestinationApp(): void {
 		if (this.options.bundle) {
 			//Assuming an the bundle has updated the dest folder already.
@@ -58,15 +162,10 @@ export class AppFilesUpdater {
 		// Copy all files from app dir, but make sure to exclude tns_modules
 		let sourceFiles = this.readSourceDir();
 
-		if (this.options.release) {
-			let testsFolderPath = path.join(this.appSourceDirectoryPath, 'tests');
-			sourceFiles = sourceFiles.filter(source => source.indexOf(testsFolderPath) === -1);
-		}
-
-		// Remove .ts and .js.map files in release
-		if (this.options.release) {
-			constants.LIVESYNC_EXCLUDED_FILE_PATTERNS.forEach(pattern => sourceFiles = sourceFiles.filter(file => !minimatch(file, pattern, { nocase: true })));
-		}
+		// Remove the files excluded for the configuration, for example the tests, .ts and .js.map files in release
+		_.each(this.options.excludedPatterns, pattern => {
+			sourceFiles = sourceFiles.filter(file => !minimatch(this.getRelativePath(file).replace(/\\/g, "/"), pattern, { nocase: true, dot: true }));
+		});
 
 		if (this.options.bundle) {
 			sourceFiles = sourceFiles.filter(file => minimatch(file, "**/App_Resources/**", { nocase: true }));
@@ -76,13 +175,23 @@ export class AppFilesUpdater {
 
 	protected copyAppSourceFiles(sourceFiles: string[]): void {
 		sourceFiles.map(source => {
-			let destinationPath = path.join(this.appDestinationDirectoryPath, path.relative(this.appSourceDirectoryPath, source));
+			let relativePath = path.relative(this.appSourceDirectoryPath, source);
+			let destinationPath = path.join(this.appDestinationDirectoryPath, relativePath);
 
 			let exists = fs.lstatSync(source);
 			if (exists.isSymbolicLink()) {
 				source = fs.realpathSync(source);
 				exists = fs.lstatSync(source);
 			}
+
+			if (this.destinationItemExists(relativePath)) {
+				// Replace symlinks and items of a different kind, in order to prevent EEXIST errors.
+				let destinationStats = fs.lstatSync(destinationPath);
+				if (destinationStats.isSymbolicLink() || destinationStats.isDirectory() !== exists.isDirectory()) {
+					this.deleteDestinationItem(relativePath);
+				}
+			}
+
 			if (exists.isDirectory()) {
 				return this.fs.createDirectory(destinationPath);
 			}
@@ -0,0 +1,306 @@
+import * as path from "path";
+import * as fs from "fs";
+import * as constants from "../constants";
+import { NodeModulesDependenciesBuilder } from "../tools/node-modules/node-modules-dependencies-builder";
+
+export class AppSizeService implements IAppSizeService {
+	private static BUDGET_KEY = "budget";
+	private static SIZE_UNITS = ["B", "KB", "MB", "GB"];
+
+	// https://pkware.cachefly.net/webdocs/casestudies/APPNOTE.TXT
+	private static END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+	private static END_OF_CENTRAL_DIRECTORY_SIZE = 22;
+	private static MAX_ZIP_COMMENT_SIZE = 0xFFFF;
+	private static CENTRAL_DIRECTORY_HEADER_SIGNATURE = 0x02014b50;
+	private static CENTRAL_DIRECTORY_HEADER_SIZE = 46;
+
+	constructor(private $errors: IErrors,
+		private $fs: IFileSystem,
+		private $injector: IInjector,
+		private $platformsData: IPlatformsData,
+		private $platformService: IPlatformService,
+		private $projectDataService: IProjectDataService) {
+	}
+
+	public async getAppSizeReport(platform: string, buildConfig: IBuildConfig, projectData: IProjectData): Promise<IAppSizeReport> {
+		let platformData = this.$platformsData.getPlatformData(platform, projectData);
+		let appDirectoryPath = path.join(platformData.appDestinationDirectoryPath, constants.APP_FOLDER_NAME);
+		if (!this.$fs.exists(appDirectoryPath)) {
+			this.$errors.failWithoutHelp(`The project is not prepared for ${platform}. Run \`tns prepare ${platform}\` first.`);
+		}
+
+		let report: IAppSizeReport = {
+			platform: platform.toLowerCase(),
+			appSize: 0,
+			appCodeSize: 0,
+			appResourcesSize: 0,
+			tnsModulesSize: 0,
+			packages: [],
+			build: null
+		};
+
+		let tnsModulesDirectoryPath = path.join(appDirectoryPath, constants.TNS_MODULES_FOLDER_NAME);
+		let packageDestinations = this.getPackageDestinations(projectData.projectDir);
+		let packages: IDictionary<IAppSizePackageEntry> = {};
+		_.each(this.getFileSizes(appDirectoryPath), (size: number, relativePath: string) => {
+			report.appSize += size;
+			let pathSegments = relativePath.split(path.sep);
+			if (pathSegments[0] === constants.APP_RESOURCES_FOLDER_NAME) {
+				report.appResourcesSize += size;
+			} else if (pathSegments[0] === constants.TNS_MODULES_FOLDER_NAME) {
+				report.tnsModulesSize += size;
+				let packageEntry = this.getPackageEntry(path.relative(tnsModulesDirectoryPath, path.join(appDirectoryPath, relativePath)), packageDestinations, packages);
+				packageEntry.size += size;
+			} else {
+				report.appCodeSize += size;
+			}
+		});
+
+		report.packages = _.sortBy(_.values<IAppSizePackageEntry>(packages), packageEntry => -packageEntry.size);
+
+		let applicationPackagePath = this.getApplicationPackagePath(platformData, buildConfig);
+		if (applicationPackagePath) {
+			let entries = this.$fs.getFsStats(applicationPackagePath).isDirectory() ? this.getDirectoryEntries(applicationPackagePath) : this.getZipEntries(applicationPackagePath);
+			report.build = {
+				packagePath: applicationPackagePath,
+				size: this.getSize(applicationPackagePath),
+				entries: _.sortBy(entries, entry => -entry.compressedSize)
+			};
+		}
+
+		return report;
+	}
+
+	public compareReports(previousReport: IAppSizeReport, currentReport: IAppSizeReport): IAppSizeChange[] {
+		let changes: IAppSizeChange[] = [
+			{ name: "Total", previousSize: previousReport.appSize, currentSize: currentReport.appSize },
+			{ name: "App code", previousSize: previousReport.appCodeSize, currentSize: currentReport.appCodeSize },
+			{ name: constants.APP_RESOURCES_FOLDER_NAME, previousSize: previousReport.appResourcesSize, currentSize: currentReport.appResourcesSize },
+			{ name: constants.TNS_MODULES_FOLDER_NAME, previousSize: previousReport.tnsModulesSize, currentSize: currentReport.tnsModulesSize }
+		];
+
+		if (previousReport.build || currentReport.build) {
+			changes.push({
+				name: "Application package",
+				previousSize: previousReport.build ? previousReport.build.size : null,
+				currentSize: currentReport.build ? currentReport.build.size : null
+			});
+		}
+
+		// The versions of the packages change between releases, so the packages are compared by name.
+		let previousPackageSizes = this.getPackageSizesByName(previousReport);
+		let currentPackageSizes = this.getPackageSizesByName(currentReport);
+		let packageNames = _.union(_.keys(previousPackageSizes), _.keys(currentPackageSizes)).sort();
+		_.each(packageNames, name => {
+			let previousSize = _.has(previousPackageSizes, name) ? previousPackageSizes[name] : null;
+			let currentSize = _.has(currentPackageSizes, name) ? currentPackageSizes[name] : null;
+			if (previousSize !== currentSize) {
+				changes.push({ name, previousSize, currentSize });
+			}
+		});
+
+		return changes;
+	}
+
+	public async checkBudget(platform: string, buildConfig: IBuildConfig, projectData: IProjectData): Promise<void> {
+		let budget = this.getBudget(platform, projectData.projectDir);
+		if (budget === null) {
+			return;
+		}
+
+		let platformData = this.$platformsData.getPlatformData(platform, projectData);
+		let applicationPackagePath = this.getApplicationPackagePath(platformData, buildConfig);
+		if (!applicationPackagePath) {
+			return;
+		}
+
+		let size = this.getSize(applicationPackagePath);
+		if (size > budget) {
+			this.$errors.failWithoutHelp(`The size of ${path.basename(applicationPackagePath)} (${this.formatSize(size)}) exceeds the budget of ${this.formatSize(budget)} set in package.json.`);
+		}
+	}
+
+	public formatSize(size: number): string {
+		let value = Math.abs(size);
+		let unitIndex = 0;
+		while (value >= 1024 && unitIndex < AppSizeService.SIZE_UNITS.length - 1) {
+			value /= 1024;
+			unitIndex++;
+		}
+
+		let formattedValue = unitIndex ? value.toFixed(2) : value.toString();
+		return `${size < 0 ? "-" : ""}${formattedValue} ${AppSizeService.SIZE_UNITS[unitIndex]}`;
+	}
+
+	/**
+	 * Gets the budget in bytes for a platform. The budget is set in the nativescript key of package.json as a number of bytes or a size like "15MB",
+	 * either for all platforms or for each platform, e.g. { "android": "15MB", "ios": "40MB" }.
+	 */
+	private getBudget(platform: string, projectDir: string): number {
+		let budget = this.$projectDataService.getNSValue(projectDir, AppSizeService.BUDGET_KEY);
+		if (_.isPlainObject(budget)) {
+			budget = budget[platform.toLowerCase()];
+		}
+
+		if (budget === undefined || budget === null) {
+			return null;
+		}
+
+		let match = budget.toString().trim().match(/^(\d+(?:\.\d+)?)\s*(B|KB|MB|GB)?$/i);
+		if (!match) {
+			this.$errors.failWithoutHelp(`The budget ${budget} set in package.json is not a valid size. Use a number of bytes or a size like "15MB".`);
+		}
+
+		let unitIndex = match[2] ? AppSizeService.SIZE_UNITS.indexOf(match[2].toUpperCase()) : 0;
+		return parseFloat(match[1]) * Math.pow(1024, unitIndex);
+	}
+
+	/**
+	 * Gets the path of each production dependency relative to tns_modules, innermost first. The nested dependencies are copied inside the top-level package which contains them.
+	 */
+	private getPackageDestinations(projectDir: string): { destination: string, dependency: IResolvedDependencyData }[] {
+		let dependenciesBuilder: INodeModulesDependenciesBuilder = this.$injector.resolve(NodeModulesDependenciesBuilder, {});
+		let dependencies = dependenciesBuilder.getProductionDependencies(projectDir);
+		let topLevelDependencies = _.filter(dependencies, dependency => dependency.depth === 0);
+		let packageDestinations = _.map(dependencies, dependency => {
+			if (dependency.depth === 0) {
+				return { destination: dependency.name, dependency };
+			}
+
+			let topLevelDependency = _.find(topLevelDependencies, d => dependency.directory.indexOf(d.directory + path.sep) === 0);
+			return topLevelDependency && { destination: path.join(topLevelDependency.name, path.relative(topLevelDependency.directory, dependency.directory)), dependency };
+		});
+
+		return _.sortBy(_.compact(packageDestinations), packageDestination => -packageDestination.destination.length);
+	}
+
+	/**
+	 * Attributes a file in tns_modules to the innermost package which contains it. Files outside of the production dependencies are attributed to their top-level directory.
+	 */
+	private getPackageEntry(relativePath: string, packageDestinations: { destination: string, dependency: IResolvedDependencyData }[], packages: IDictionary<IAppSizePackageEntry>): IAppSizePackageEntry {
+		let packageDestination = _.find(packageDestinations, d => relativePath.indexOf(d.destination + path.sep) === 0);
+		let destination = packageDestination && packageDestination.destination;
+		let dependency = packageDestination && packageDestination.dependency;
+		if (!destination) {
+			let pathSegments = relativePath.split(path.sep);
+			destination = pathSegments[0].charAt(0) === "@" && pathSegments.length > 2 ? path.join(pathSegments[0], pathSegments[1]) : pathSegments[0];
+		}
+
+		if (!packages[destination]) {
+			packages[destination] = {
+				name: dependency ? dependency.name : destination.split(path.sep).join("/"),
+				version: dependency ? dependency.version : null,
+				size: 0
+			};
+		}
+
+		return packages[destination];
+	}
+
+	private getPackageSizesByName(report: IAppSizeReport): IDictionary<number> {
+		let packageSizes: IDictionary<number> = {};
+		_.each(report.packages, packageEntry => {
+			packageSizes[packageEntry.name] = (packageSizes[packageEntry.name] || 0) + packageEntry.size;
+		});
+
+		return packageSizes;
+	}
+
+	private getApplicationPackagePath(platformData: IPlatformData, buildConfig: IBuildConfig): string {
+		let buildOutputPath = buildConfig.buildForDevice ? platformData.deviceBuildOutputPath : (platformData.emulatorBuildOutputPath || platformData.deviceBuildOutputPath);
+		let validPackageNames = platformData.getValidPackageNames({ isForDevice: buildConfig.buildForDevice, isReleaseBuild: buildConfig.release });
+		if (!this.$fs.exists(buildOutputPath) || !_.intersection(this.$fs.readDirectory(buildOutputPath), validPackageNames).length) {
+			return null;
+		}
+
+		let applicationPackage = buildConfig.buildForDevice ?
+			this.$platformService.getLatestApplicationPackageForDevice(platformData, buildConfig) :
+			this.$platformService.getLatestApplicationPackageForEmulator(platformData, buildConfig);
+
+		return applicationPackage.packageName;
+	}
+
+	private getSize(fileOrDirectoryPath: string): number {
+		return this.$fs.getFsStats(fileOrDirectoryPath).isDirectory() ? _.sum(_.values<number>(this.getFileSizes(fileOrDirectoryPath))) : this.$fs.getFileSize(fileOrDirectoryPath);
+	}
+
+	private getFileSizes(directoryPath: string): IDictionary<number> {
+		let fileSizes: IDictionary<number> = {};
+		_.each(this.$fs.enumerateFilesInDirectorySync(directoryPath), filePath => {
+			fileSizes[path.relative(directoryPath, filePath)] = this.$fs.getFileSize(filePath);
+		});
+
+		return fileSizes;
+	}
+
+	// The .app for the iOS Simulator is a directory, so its files are not compressed.
+	private getDirectoryEntries(directoryPath: string): IAppSizeArchiveEntry[] {
+		return _.map(this.getFileSizes(directoryPath), (size: number, relativePath: string) => ({
+			name: relativePath.split(path.sep).join("/"),
+			size,
+			compressedSize: size
+		}));
+	}
+
+	/**
+	 * Reads the sizes of the files in a zip archive (.apk or .ipa) from its central directory, so the archive is not extracted.
+	 */
+	private getZipEntries(zipFilePath: string): IAppSizeArchiveEntry[] {
+		let fileDescriptor = fs.openSync(zipFilePath, "r");
+		try {
+			let fileSize = fs.fstatSync(fileDescriptor).size;
+			let tailSize = Math.min(fileSize, AppSizeService.END_OF_CENTRAL_DIRECTORY_SIZE + AppSizeService.MAX_ZIP_COMMENT_SIZE);
+			let tail = new Buffer(tailSize);
+			fs.readSync(fileDescriptor, tail, 0, tailSize, fileSize - tailSize);
+
+			let endOfCentralDirectoryOffset = -1;
+			for (let offset = tailSize - AppSizeService.END_OF_CENTRAL_DIRECTORY_SIZE; offset >= 0; offset--) {
+				if (tail.readUInt32LE(offset) === AppSizeService.END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+					endOfCentralDirectoryOffset = offset;
+					break;
+				}
+			}
+
+			if (endOfCentralDirectoryOffset === -1) {
+				this.$errors.failWithoutHelp(`${zipFilePath} is not a valid zip archive.`);
+			}
+
+			let entriesCount = tail.readUInt16LE(endOfCentralDirectoryOffset + 10);
+			let centralDirectorySize = tail.readUInt32LE(endOfCentralDirectoryOffset + 12);
+			let centralDirectoryOffset = tail.readUInt32LE(endOfCentralDirectoryOffset + 16);
+			let centralDirectory = new Buffer(centralDirectorySize);
+			fs.readSync(fileDescriptor, centralDirectory, 0, centralDirectorySize, centralDirectoryOffset);
+
+			let entries: IAppSizeArchiveEntry[] = [];
+			let headerOffset = 0;
+			for (let index = 0; index < entriesCount; index++) {
+				if (centralDirectory.readUInt32LE(headerOffset) !== AppSizeService.CENTRAL_DIRECTORY_HEADER_SIGNATURE) {
+					this.$errors.failWithoutHelp(`The central directory of ${zipFilePath} is corrupted.`);
+				}
+
+				let fileNameLength = centralDirectory.readUInt16LE(headerOffset + 28);
+				let extraFieldLength = centralDirectory.readUInt16LE(headerOffset + 30);
+				let commentLength = centralDirectory.readUInt16LE(headerOffset + 32);
+				let nameOffset = headerOffset + AppSizeService.CENTRAL_DIRECTORY_HEADER_SIZE;
+				let name = centralDirectory.toString("utf8", nameOffset, nameOffset + fileNameLength);
+
+				// Directories are stored as entries whose names end with a slash.
+				if (!_.endsWith(name, "/")) {
+					entries.push({
+						name,
+						size: centralDirectory.readUInt32LE(headerOffset + 24),
+						compressedSize: centralDirectory.readUInt32LE(headerOffset + 20)
+					});
+				}
+
+				headerOffset = nameOffset + fileNameLength + extraFieldLength + commentLength;
+			}
+
+			return entries;
+		} finally {
+			fs.closeSync(fileDescriptor);
+		}
+	}
+}
+
+$injector.register("appSizeService", AppSizeService);
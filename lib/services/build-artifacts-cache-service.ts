@@ -0,0 +1,116 @@
+import * as path from "path";
+import * as crypto from "crypto";
+import * as shell from "shelljs";
+import { APP_FILES_INFO_FILE_NAME, PREPARED_CONFIGURATIONS_DIR_NAME, TNS_MODULES_INFO_FILE_NAME, NATIVE_PLUGINS_INFO_FILE_NAME, PODS_INFO_FILE_NAME } from "../constants";
+
+export class BuildArtifactsCacheService implements IBuildArtifactsCacheService {
+	// Build outputs and machine or user specific files in the root of the native projects, which do not affect the produced application package.
+	private static EXCLUDED_PROJECT_ENTRIES = ["build", ".gradle", "local.properties", APP_FILES_INFO_FILE_NAME, PREPARED_CONFIGURATIONS_DIR_NAME, TNS_MODULES_INFO_FILE_NAME, NATIVE_PLUGINS_INFO_FILE_NAME, PODS_INFO_FILE_NAME];
+	private static XCODE_USER_DATA_DIR_NAME = "xcuserdata";
+	private static XCODE_PROJECT_DIR_REGEXP = /\.(xcodeproj|xcworkspace)$/;
+
+	constructor(private $fs: IFileSystem,
+		private $logger: ILogger,
+		private $options: IOptions,
+		private $config: IConfiguration,
+		private $platformsData: IPlatformsData,
+		private $projectDataService: IProjectDataService,
+		private $projectChangesService: IProjectChangesService) {
+	}
+
+	public get cacheDirectoryPath(): string {
+		let cacheDirectoryPath = this.$options.buildCache || this.$config.BUILD_CACHE_DIR;
+		return cacheDirectoryPath ? path.resolve(cacheDirectoryPath) : null;
+	}
+
+	public getFingerprint(platform: string, projectData: IProjectData, buildConfig: IBuildConfig): string {
+		if (!this.cacheDirectoryPath) {
+			return null;
+		}
+
+		let platformData = this.$platformsData.getPlatformData(platform, projectData);
+		let frameworkData = this.$projectDataService.getNSValue(projectData.projectDir, platformData.frameworkPackageName);
+		let hash = crypto.createHash("sha1");
+		hash.update(JSON.stringify({
+			platform: platform.toLowerCase(),
+			runtimeVersion: frameworkData && frameworkData.version,
+			release: !!buildConfig.release,
+			buildForDevice: !!buildConfig.buildForDevice,
+			architectures: buildConfig.architectures,
+			provision: buildConfig.provision,
+			teamId: buildConfig.teamId,
+			mobileProvisionIdentifier: buildConfig.mobileProvisionIdentifier,
+			codeSignIdentity: buildConfig.codeSignIdentity,
+			keyStore: buildConfig.keyStorePath && this.$fs.exists(buildConfig.keyStorePath) ? this.getFileHash(buildConfig.keyStorePath) : null,
+			keyStorePassword: buildConfig.keyStorePassword,
+			keyStoreAlias: buildConfig.keyStoreAlias,
+			keyStoreAliasPassword: buildConfig.keyStoreAliasPassword
+		}));
+
+		let excludedEntries = BuildArtifactsCacheService.EXCLUDED_PROJECT_ENTRIES.concat(path.basename(this.$projectChangesService.getPrepareInfoFilePath(platform, projectData)));
+		let projectFiles = this.$fs.enumerateFilesInDirectorySync(platformData.projectRoot, (file: string) => !this.isExcludedProjectEntry(path.relative(platformData.projectRoot, file), excludedEntries), { enumerateDirectories: false });
+		let relativeProjectFiles = _.map(projectFiles, file => path.relative(platformData.projectRoot, file).replace(/\\/g, "/")).sort();
+		for (let relativeFile of relativeProjectFiles) {
+			hash.update(relativeFile);
+			hash.update(this.getFileHash(path.join(platformData.projectRoot, relativeFile)));
+		}
+
+		return hash.digest("hex");
+	}
+
+	public restoreArtifact(fingerprint: string, buildOutputPath: string): boolean {
+		let artifactDirectoryPath = path.join(this.cacheDirectoryPath, fingerprint);
+		let cachedPackages = this.$fs.exists(artifactDirectoryPath) ? this.$fs.readDirectory(artifactDirectoryPath) : [];
+		if (cachedPackages.length !== 1) {
+			this.$logger.trace(`There is no cached application package for fingerprint ${fingerprint}.`);
+			return false;
+		}
+
+		let cachedPackagePath = path.join(artifactDirectoryPath, cachedPackages[0]);
+		let packagePath = path.join(buildOutputPath, cachedPackages[0]);
+		this.$logger.trace(`Restoring ${cachedPackagePath} to ${packagePath}.`);
+		this.$fs.ensureDirectoryExists(buildOutputPath);
+		shell.rm("-rf", packagePath);
+		shell.cp("-R", cachedPackagePath, packagePath);
+		return true;
+	}
+
+	public storeArtifact(fingerprint: string, packagePath: string): void {
+		let artifactDirectoryPath = path.join(this.cacheDirectoryPath, fingerprint);
+		if (this.$fs.exists(artifactDirectoryPath)) {
+			return;
+		}
+
+		// The cache directory can be shared between processes, so the package is copied next to its final location and renamed into place.
+		let stagingDirectoryPath = `${artifactDirectoryPath}.${process.pid}.tmp`;
+		this.$logger.trace(`Storing ${packagePath} in the build cache as ${fingerprint}.`);
+		this.$fs.ensureDirectoryExists(stagingDirectoryPath);
+		shell.cp("-R", packagePath, path.join(stagingDirectoryPath, path.basename(packagePath)));
+		try {
+			this.$fs.rename(stagingDirectoryPath, artifactDirectoryPath);
+		} catch (err) {
+			// Another process has stored the same artifact in the meantime.
+			this.$logger.trace(`Unable to store ${packagePath} in the build cache: ${err}`);
+			shell.rm("-rf", stagingDirectoryPath);
+		}
+	}
+
+	/**
+	 * The entries are excluded only in the root of the native project, as the ones with the same names deeper in it, e.g. the build directories of npm packages in the app, are part of the application package.
+	 * The only exception is the user specific data of the Xcode project and workspace.
+	 */
+	private isExcludedProjectEntry(relativePath: string, excludedEntries: string[]): boolean {
+		let segments = relativePath.split(path.sep);
+		if (segments.length === 1) {
+			return _.includes(excludedEntries, segments[0]);
+		}
+
+		return segments.length === 2 && segments[1] === BuildArtifactsCacheService.XCODE_USER_DATA_DIR_NAME && BuildArtifactsCacheService.XCODE_PROJECT_DIR_REGEXP.test(segments[0]);
+	}
+
+	private getFileHash(filePath: string): string {
+		return crypto.createHash("sha1").update(this.$fs.readFile(filePath)).digest("hex");
+	}
+}
+
+$injector.register("buildArtifactsCacheService", BuildArtifactsCacheService);
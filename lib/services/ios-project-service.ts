@@ -2,6 +2,7 @@ import * as path from "path";
 import * as shell from "shelljs";
 import * as os from "os";
 import * as semver from "semver";
+import * as crypto from "crypto";
 import * as xcode from "xcode";
 import * as constants from "../constants";
 import * as helpers from "../common/helpers";
@@ -41,7 +42,8 @@ export class IOSProjectService extends projectServiceBaseLib.PlatformProjectServ
 		private $pluginVariablesService: IPluginVariablesService,
 		private $xcprojService: IXcprojService,
 		private $iOSProvisionService: IOSProvisionService,
-		private $sysInfo: ISysInfo) {
+		private $sysInfo: ISysInfo,
+		private $options: IOptions) {
 		super($fs, $projectDataService);
 	}
 
@@ -809,9 +811,60 @@ We will now place an empty obsolete compatability white screen LauncScreen.xib f
 				let createSchemeRubyScript = `ruby -e "require 'xcodeproj'; xcproj = Xcodeproj::Project.open('${projectData.projectName}.xcodeproj'); xcproj.recreate_user_schemes; xcproj.save"`;
 				await this.$childProcess.exec(createSchemeRubyScript, { cwd: this.getPlatformData(projectData).projectRoot });
 			}
+		}
+	}
 
-			await this.executePodInstall(projectData);
+	public async installNativeDependencies(projectData: IProjectData): Promise<void> {
+		if (!this.$fs.exists(this.getProjectPodFilePath(projectData))) {
+			return;
+		}
+
+		let podsInfoFilePath = path.join(this.getPlatformData(projectData).projectRoot, constants.PODS_INFO_FILE_NAME);
+		if (!this.$options.forcePods && this.arePodsInstalled(podsInfoFilePath, projectData)) {
+			this.$logger.info("Pods are up to date. Use --force-pods to install them anyway.");
+			return;
+		}
+
+		await this.executePodInstall(projectData);
+		this.$fs.writeJson(podsInfoFilePath, { signature: this.getPodsSignature(projectData) });
+	}
+
+	/**
+	 * Checks whether the Podfile of the project, the Podfiles of the plugins and the Podfile.lock are the same as after the last pod install and the Pods directory matches the Podfile.lock.
+	 */
+	private arePodsInstalled(podsInfoFilePath: string, projectData: IProjectData): boolean {
+		let projectRoot = this.getPlatformData(projectData).projectRoot;
+		let podfileLockPath = path.join(projectRoot, "Podfile.lock");
+		let manifestLockPath = path.join(projectRoot, "Pods", "Manifest.lock");
+		if (!this.$fs.exists(podsInfoFilePath) || !this.$fs.exists(podfileLockPath) || !this.$fs.exists(manifestLockPath)) {
+			return false;
+		}
+
+		return this.$fs.readJson(podsInfoFilePath).signature === this.getPodsSignature(projectData) && this.$fs.readText(podfileLockPath) === this.$fs.readText(manifestLockPath);
+	}
+
+	private getPodsSignature(projectData: IProjectData): string {
+		let signature = crypto.createHash("sha1");
+		let projectPodfileContent = this.$fs.readText(this.getProjectPodFilePath(projectData));
+		signature.update(projectPodfileContent);
+
+		// The Podfiles of the plugins are found by the paths in the project Podfile.
+		let pluginPodfileRegExp = /# Begin Podfile - (.*) \r?\n/g;
+		let match: RegExpExecArray;
+		while (match = pluginPodfileRegExp.exec(projectPodfileContent)) {
+			let pluginPodfilePath = match[1];
+			signature.update(`${pluginPodfilePath}\n`);
+			if (this.$fs.exists(pluginPodfilePath)) {
+				signature.update(this.$fs.readText(pluginPodfilePath));
+			}
 		}
+
+		let podfileLockPath = path.join(this.getPlatformData(projectData).projectRoot, "Podfile.lock");
+		if (this.$fs.exists(podfileLockPath)) {
+			signature.update(this.$fs.readText(podfileLockPath));
+		}
+
+		return signature.digest("hex");
 	}
 
 	public beforePrepareAllPlugins(): Promise<void> {
@@ -982,11 +1035,15 @@ We will now place an empty obsolete compatability white screen LauncScreen.xib f
 	private removeCocoapods(pluginPlatformsFolderPath: string, projectData: IProjectData): void {
 		let pluginPodFilePath = path.join(pluginPlatformsFolderPath, "Podfile");
 
-		if (this.$fs.exists(pluginPodFilePath) && this.$fs.exists(this.getProjectPodFilePath(projectData))) {
-			let pluginPodFileContent = this.$fs.readText(pluginPodFilePath);
-			let projectPodFileContent = this.$fs.readText(this.getProjectPodFilePath(projectData));
-			let contentToRemove = this.buildPodfileContent(pluginPodFilePath, pluginPodFileContent);
-			projectPodFileContent = helpers.stringReplaceAll(projectPodFileContent, contentToRemove, "");
+		if (this.$fs.exists(this.getProjectPodFilePath(projectData))) {
+			let originalProjectPodFileContent = this.$fs.readText(this.getProjectPodFilePath(projectData));
+			// The Podfile of the plugin may have changed or may no longer be installed, so its content is found by its path.
+			let contentToRemove = new RegExp(`# Begin Podfile - ${_.escapeRegExp(pluginPodFilePath)} ${os.EOL}[\\s\\S]*?# End Podfile ${os.EOL}`, "g");
+			let projectPodFileContent = originalProjectPodFileContent.replace(contentToRemove, "");
+			if (projectPodFileContent === originalProjectPodFileContent) {
+				return;
+			}
+
 			if (projectPodFileContent.trim() === `use_frameworks!${os.EOL}${os.EOL}target "${projectData.projectName}" do${os.EOL}${os.EOL}end`) {
 				this.$fs.deleteFile(this.getProjectPodFilePath(projectData));
 			} else {
@@ -17,7 +17,9 @@ class LiveSyncService implements ILiveSyncService {
 		private $logger: ILogger,
 		private $dispatcher: IFutureDispatcher,
 		private $hooksService: IHooksService,
-		private $processService: IProcessService) { }
+		private $projectIgnoreService: IProjectIgnoreService,
+		private $processService: IProcessService,
+		private $pluginsService: IPluginsService) { }
 
 	public get isInitialized(): boolean { // This function is used from https://github.com/NativeScript/nativescript-dev-typescript/blob/master/lib/before-prepare.js#L4
 		return this._isInitialized;
@@ -96,6 +98,7 @@ class LiveSyncService implements ILiveSyncService {
 		let that = this;
 		let dependenciesBuilder = this.$injector.resolve(NodeModulesDependenciesBuilder, {});
 		let productionDependencies = dependenciesBuilder.getProductionDependencies(projectData.projectDir);
+		let linkedPlugins = this.$pluginsService.getLinkedPlugins(projectData);
 		let pattern = ["app"];
 
 		if (this.$options.syncAllFiles) {
@@ -103,14 +106,17 @@ class LiveSyncService implements ILiveSyncService {
 
 			// watch only production node_module/packages same one prepare uses
 			for (let index in productionDependencies) {
-				pattern.push("node_modules/" + productionDependencies[index].name);
+				// The linked plugins are watched in their own directories below.
+				if (!_.some(linkedPlugins, linkedPlugin => linkedPlugin.name === productionDependencies[index].name)) {
+					pattern.push("node_modules/" + productionDependencies[index].name);
+				}
 			}
 		}
 
-		let watcher = choki.watch(pattern, { ignoreInitial: true, cwd: syncWorkingDirectory, ignored: '**/*.DS_Store' }).on("all", (event: string, filePath: string) => {
+		let onChange = (event: string, filePath: string) => {
 			that.$dispatcher.dispatch(async () => {
 				try {
-					filePath = path.join(syncWorkingDirectory, filePath);
+					filePath = that.getProjectFilePath(path.join(syncWorkingDirectory, filePath), linkedPlugins, projectData);
 					for (let i = 0; i < onChangedActions.length; i++) {
 						that.$logger.trace(`Event '${event}' triggered for path: '${filePath}'`);
 						await onChangedActions[i](event, filePath, that.$dispatcher);
@@ -120,14 +126,55 @@ class LiveSyncService implements ILiveSyncService {
 					that.$logger.info("Try saving it again or restart the livesync operation.");
 				}
 			});
-		});
+		};
+
+		let isExcludedByProject = (filePath: string) => this.$projectIgnoreService.isExcluded(path.relative(projectData.appDirectoryPath, path.resolve(syncWorkingDirectory, filePath)), projectData.projectDir, this.$options.release);
+		let watcher = choki.watch(pattern, { ignoreInitial: true, cwd: syncWorkingDirectory, ignored: ['**/*.DS_Store', isExcludedByProject] }).on("all", onChange);
 
 		this.$processService.attachToProcessExitSignals(this, () => {
 			watcher.close(pattern);
 		});
 
+		if (linkedPlugins.length) {
+			// The linked plugins are watched without --syncAllFiles, as they are developed together with the project.
+			// Their dependencies are not watched and neither is the project, which is the demo app inside the plugin when the plugin is linked from it.
+			let linkedPluginsPattern = _.map(linkedPlugins, linkedPlugin => linkedPlugin.directory);
+			let isExcludedFromLinkedPlugin = (filePath: string) => {
+				let fullPath = path.resolve(syncWorkingDirectory, filePath);
+				let linkedPlugin = this.getLinkedPlugin(fullPath, linkedPlugins, projectData);
+				return !linkedPlugin || _.includes(path.relative(linkedPlugin.directory, fullPath).split(path.sep), constants.NODE_MODULES_FOLDER_NAME);
+			};
+			let linkedPluginsWatcher = choki.watch(linkedPluginsPattern, { ignoreInitial: true, cwd: syncWorkingDirectory, ignored: ['**/*.DS_Store', isExcludedFromLinkedPlugin] }).on("all", onChange);
+
+			this.$processService.attachToProcessExitSignals(this, () => {
+				linkedPluginsWatcher.close(linkedPluginsPattern);
+			});
+		}
+
 		this.$dispatcher.run();
 	}
+
+	/**
+	 * Maps the files of the linked plugins to their paths in node_modules of the project, so they are prepared and synced as files of the installed plugins.
+	 * Changes in the platforms directory of a linked plugin are detected by the prepare as native changes and the application is rebuilt.
+	 */
+	private getProjectFilePath(filePath: string, linkedPlugins: ILinkedPluginData[], projectData: IProjectData): string {
+		let linkedPlugin = this.getLinkedPlugin(filePath, linkedPlugins, projectData);
+		return linkedPlugin ? path.join(projectData.projectDir, constants.NODE_MODULES_FOLDER_NAME, linkedPlugin.name, path.relative(linkedPlugin.directory, filePath)) : filePath;
+	}
+
+	private getLinkedPlugin(filePath: string, linkedPlugins: ILinkedPluginData[], projectData: IProjectData): ILinkedPluginData {
+		if (this.isInsideDirectory(filePath, projectData.projectDir)) {
+			return null;
+		}
+
+		return _.find(linkedPlugins, linkedPlugin => this.isInsideDirectory(filePath, linkedPlugin.directory));
+	}
+
+	private isInsideDirectory(filePath: string, directory: string): boolean {
+		let relativePath = path.relative(directory, filePath);
+		return !_.startsWith(relativePath, "..") && !path.isAbsolute(relativePath);
+	}
 }
 
 $injector.register("usbLiveSyncService", LiveSyncService);
@@ -23,6 +23,7 @@ export abstract class PlatformLiveSyncServiceBase implements IPlatformLiveSyncSe
 		private $projectFilesProvider: IProjectFilesProvider,
 		private $platformService: IPlatformService,
 		private $projectChangesService: IProjectChangesService,
+		private $projectIgnoreService: IProjectIgnoreService,
 		private $liveSyncProvider: ILiveSyncProvider,
 		private $fs: IFileSystem) {
 		this.liveSyncData = _liveSyncData;
@@ -60,6 +61,11 @@ export abstract class PlatformLiveSyncServiceBase implements IPlatformLiveSyncSe
 			return;
 		}
 
+		if (this.$projectIgnoreService.isExcluded(path.relative(projectData.appDirectoryPath, filePath), projectData.projectDir, this.$options.release)) {
+			this.$logger.trace(`Skipping livesync for changed file ${filePath} as it is excluded by the project.`);
+			return;
+		}
+
 		if (event === "add" || event === "addDir" || event === "change") {
 			this.batchSync(filePath, dispatcher, afterFileSyncAction, projectData);
 		} else if (event === "unlink" || event === "unlinkDir") {
@@ -123,10 +129,10 @@ export abstract class PlatformLiveSyncServiceBase implements IPlatformLiveSyncSe
 							let batch = this.batch[platform];
 							await batch.syncFiles(async (filesToSync: string[]) => {
 								const appFilesUpdaterOptions: IAppFilesUpdaterOptions = { bundle: this.$options.bundle, release: this.$options.release };
-								await this.$platformService.preparePlatform(this.liveSyncData.platform, appFilesUpdaterOptions, this.$options.platformTemplate, projectData, { provision: this.$options.provision, sdk: this.$options.sdk }, filesToSync);
+								let changesInfo = await this.$platformService.preparePlatform(this.liveSyncData.platform, appFilesUpdaterOptions, this.$options.platformTemplate, projectData, { provision: this.$options.provision, sdk: this.$options.sdk }, filesToSync);
 								let canExecute = this.getCanExecuteAction(this.liveSyncData.platform, this.liveSyncData.appIdentifier);
 								let deviceFileAction = (deviceAppData: Mobile.IDeviceAppData, localToDevicePaths: Mobile.ILocalToDevicePathData[]) => this.transferFiles(deviceAppData, localToDevicePaths, this.liveSyncData.projectFilesPath, !filePath);
-								let action = this.getSyncAction(filesToSync, deviceFileAction, afterFileSyncAction, projectData);
+								let action = this.getSyncAction(filesToSync, deviceFileAction, afterFileSyncAction, projectData, changesInfo);
 								await this.$devicesService.execute(action, canExecute);
 							});
 						}
@@ -150,7 +156,7 @@ export abstract class PlatformLiveSyncServiceBase implements IPlatformLiveSyncSe
 			return deviceLiveSyncService.removeFiles(this.liveSyncData.appIdentifier, localToDevicePaths, projectData.projectId);
 		};
 		let canExecute = this.getCanExecuteAction(this.liveSyncData.platform, this.liveSyncData.appIdentifier);
-		let action = this.getSyncAction([filePath], deviceFilesAction, afterFileSyncAction, projectData);
+		let action = this.getSyncAction([filePath], deviceFilesAction, afterFileSyncAction, projectData, null);
 		await this.$devicesService.execute(action, canExecute);
 	}
 
@@ -158,13 +164,14 @@ export abstract class PlatformLiveSyncServiceBase implements IPlatformLiveSyncSe
 		filesToSync: string[],
 		fileSyncAction: (deviceAppData: Mobile.IDeviceAppData, localToDevicePaths: Mobile.ILocalToDevicePathData[]) => Promise<void>,
 		afterFileSyncAction: (deviceAppData: Mobile.IDeviceAppData, localToDevicePaths: Mobile.ILocalToDevicePathData[]) => Promise<void>,
-		projectData: IProjectData): (device: Mobile.IDevice) => Promise<void> {
+		projectData: IProjectData,
+		changesInfo: IProjectChangesInfo): (device: Mobile.IDevice) => Promise<void> {
 		let action = async (device: Mobile.IDevice): Promise<void> => {
 			let deviceAppData: Mobile.IDeviceAppData = null;
 			let localToDevicePaths: Mobile.ILocalToDevicePathData[] = null;
 			let isFullSync = false;
 
-			if (this.$options.clean || this.$projectChangesService.currentChanges.changesRequireBuild) {
+			if (this.$options.clean || (changesInfo && changesInfo.changesRequireBuild)) {
 				let buildConfig: IBuildConfig = {
 					buildForDevice: !device.isEmulator,
 					projectDir: this.$options.path,
@@ -174,7 +181,7 @@ export abstract class PlatformLiveSyncServiceBase implements IPlatformLiveSyncSe
 					provision: this.$options.provision,
 				};
 				let platform = device.deviceInfo.platform;
-				if (this.$platformService.shouldBuild(platform, projectData, buildConfig)) {
+				if (await this.$platformService.shouldBuild(platform, projectData, buildConfig, changesInfo)) {
 					await this.$platformService.buildPlatform(platform, buildConfig, projectData);
 				}
 
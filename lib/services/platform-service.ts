@@ -19,6 +19,7 @@ export class PlatformService extends EventEmitter implements IPlatformService {
 	}
 
 	private _trackedProjectFilePath: string = null;
+	private _prepareStageHandlers: IPrepareStageHandler[] = [];
 
 	constructor(private $devicesService: Mobile.IDevicesService,
 		private $errors: IErrors,
@@ -31,6 +32,7 @@ export class PlatformService extends EventEmitter implements IPlatformService {
 		private $nodeModulesBuilder: INodeModulesBuilder,
 		private $pluginsService: IPluginsService,
 		private $projectFilesManager: IProjectFilesManager,
+		private $projectFilesProvider: IProjectFilesProvider,
 		private $mobileHelper: Mobile.IMobileHelper,
 		private $hostInfo: IHostInfo,
 		private $xmlValidator: IXmlValidator,
@@ -38,6 +40,9 @@ export class PlatformService extends EventEmitter implements IPlatformService {
 		private $devicePlatformsConstants: Mobile.IDevicePlatformsConstants,
 		private $deviceAppDataFactory: Mobile.IDeviceAppDataFactory,
 		private $projectChangesService: IProjectChangesService,
+		private $buildArtifactsCacheService: IBuildArtifactsCacheService,
+		private $projectIgnoreService: IProjectIgnoreService,
+		private $projectQualifiersService: IProjectQualifiersService,
 		private $emulatorPlatformService: IEmulatorPlatformService,
 		private $analyticsService: IAnalyticsService,
 		private $messages: IMessages,
@@ -216,7 +221,7 @@ export class PlatformService extends EventEmitter implements IPlatformService {
 		return _.filter(this.$platformsData.platformsNames, p => { return this.isPlatformPrepared(p, projectData); });
 	}
 
-	public async preparePlatform(platform: string, appFilesUpdaterOptions: IAppFilesUpdaterOptions, platformTemplate: string, projectData: IProjectData, platformSpecificData: IPlatformSpecificData, filesToSync?: Array<String>): Promise<boolean> {
+	public async preparePlatform(platform: string, appFilesUpdaterOptions: IAppFilesUpdaterOptions, platformTemplate: string, projectData: IProjectData, platformSpecificData: IPlatformSpecificData, filesToSync?: Array<String>): Promise<IProjectChangesInfo> {
 		this.validatePlatform(platform, projectData);
 
 		await this.trackProjectType(projectData);
@@ -233,27 +238,31 @@ export class PlatformService extends EventEmitter implements IPlatformService {
 		await this.$pluginsService.validate(platformData, projectData);
 
 		await this.ensurePlatformInstalled(platform, platformTemplate, projectData, platformSpecificData);
-		let changesInfo = this.$projectChangesService.checkForChanges(platform, projectData, { bundle: appFilesUpdaterOptions.bundle, release: appFilesUpdaterOptions.release, provision: platformSpecificData.provision });
+		let changesInfo = this.$projectChangesService.checkForChanges(platform, projectData, {
+			bundle: appFilesUpdaterOptions.bundle,
+			release: appFilesUpdaterOptions.release,
+			provision: platformSpecificData.provision,
+			qualifiers: this.$projectQualifiersService.getSelectedQualifiers(projectData.projectDir)
+		});
 
-		this.$logger.trace("Changes info in prepare platform:", changesInfo);
+		this.$logger.trace("Changes info in prepare platform:", _.omit(changesInfo, "prepareInfo"));
 
 		if (changesInfo.hasChanges) {
-			// android build artifacts need to be cleaned up when switching from release to debug builds
-			if (platform.toLowerCase() === "android") {
-				let previousPrepareInfo = this.$projectChangesService.getPrepareInfo(platform, projectData);
-				// clean up prepared plugins when not building for release
-				if (previousPrepareInfo && previousPrepareInfo.release !== appFilesUpdaterOptions.release) {
-					await platformData.platformProjectService.cleanProject(platformData.projectRoot, projectData);
-				}
-			}
-
 			await this.preparePlatformCore(platform, appFilesUpdaterOptions, projectData, platformSpecificData, changesInfo, filesToSync);
-			this.$projectChangesService.savePrepareInfo(platform, projectData);
+			this.$projectChangesService.savePrepareInfo(platform, projectData, changesInfo);
 		} else {
-			this.$logger.out("Skipping prepare.");
+			// Persist the refreshed file hashes, so files whose timestamps have moved are not hashed again on the next prepare.
+			this.$projectChangesService.savePrepareInfo(platform, projectData, changesInfo);
+			this.$logger.out(`Skipping prepare (${platform}).`);
 		}
 
-		return true;
+		// The native dependencies can be out of date even if the plugins have not changed, for example when the Pods directory is deleted.
+		// The livesync of changed files checks them only when the node_modules have changed.
+		if (!filesToSync || changesInfo.modulesChanged) {
+			await platformData.platformProjectService.installNativeDependencies(projectData);
+		}
+
+		return changesInfo;
 	}
 
 	public async validateOptions(provision: any, projectData: IProjectData, platform?: string): Promise<boolean> {
@@ -274,43 +283,115 @@ export class PlatformService extends EventEmitter implements IPlatformService {
 		}
 	}
 
+	public registerPrepareStageHandler(handler: IPrepareStageHandler): void {
+		let stages = _.values<string>(constants.PrepareStages);
+		if (!_.includes(stages, handler.stage)) {
+			this.$errors.fail(`Invalid prepare stage ${handler.stage}. Valid stages are ${helpers.formatListOfNames(stages)}.`);
+		}
+
+		this._prepareStageHandlers.push(handler);
+	}
+
 	/* Hooks are expected to use "filesToSync" parameter, as to give plugin authors additional information about the sync process.*/
 	@helpers.hook('prepare')
 	private async preparePlatformCore(platform: string, appFilesUpdaterOptions: IAppFilesUpdaterOptions, projectData: IProjectData, platformSpecificData: IPlatformSpecificData, changesInfo?: IProjectChangesInfo, filesToSync?: Array<String>): Promise<void> {
 		this.$logger.out("Preparing project...");
 
 		let platformData = this.$platformsData.getPlatformData(platform, projectData);
+		let appDestinationDirectoryPath = path.join(platformData.appDestinationDirectoryPath, constants.APP_FOLDER_NAME);
+		let stageData: IPrepareStageData = {
+			stage: null,
+			platform,
+			platformData,
+			projectData,
+			changesInfo: changesInfo || null,
+			appFilesUpdaterOptions,
+			platformSpecificData,
+			appDestinationDirectoryPath,
+			filesToSync: <string[]>filesToSync || [],
+			files: [],
+			dependencies: []
+		};
 
-		if (!changesInfo || changesInfo.appFilesChanged) {
-			await this.copyAppFiles(platform, appFilesUpdaterOptions, projectData);
+		if (!changesInfo || changesInfo.appFilesChanged || changesInfo.appResourcesChanged) {
+			await this.executePrepareStage(constants.PrepareStages.COPY_APP_FILES, stageData, async () => this.copyAppFiles(platform, appFilesUpdaterOptions, projectData));
 		}
 		if (!changesInfo || changesInfo.appResourcesChanged) {
-			await this.copyAppFiles(platform, appFilesUpdaterOptions, projectData);
-			this.copyAppResources(platform, projectData);
-			await platformData.platformProjectService.prepareProject(projectData, platformSpecificData);
+			await this.executePrepareStage(constants.PrepareStages.COPY_APP_RESOURCES, stageData, async () => {
+				let appResourcesFiles = this.copyAppResources(platform, projectData);
+				await platformData.platformProjectService.prepareProject(projectData, platformSpecificData);
+				return appResourcesFiles;
+			});
 		}
 		if (!changesInfo || changesInfo.modulesChanged) {
-			await this.copyTnsModules(platform, projectData);
+			try {
+				await this.executePrepareStage(constants.PrepareStages.PROCESS_TNS_MODULES, stageData, async () => {
+					stageData.dependencies = await this.copyTnsModules(platform, appFilesUpdaterOptions, projectData);
+					return [];
+				});
+				await this.executePrepareStage(constants.PrepareStages.PREPARE_PLUGINS, stageData, async () => {
+					await this.$nodeModulesBuilder.preparePlugins(stageData.dependencies, platform, projectData);
+					return [];
+				});
+			} catch (error) {
+				this.$logger.debug(error);
+				shell.rm("-rf", appDestinationDirectoryPath);
+				this.$errors.failWithoutHelp(`Processing node_modules failed. ${error}`);
+			}
 		}
 
-		let directoryPath = path.join(platformData.appDestinationDirectoryPath, constants.APP_FOLDER_NAME);
-		let excludedDirs = [constants.APP_RESOURCES_FOLDER_NAME];
-		if (!changesInfo || !changesInfo.modulesChanged) {
-			excludedDirs.push(constants.TNS_MODULES_FOLDER_NAME);
-		}
+		await this.executePrepareStage(constants.PrepareStages.PROCESS_PLATFORM_SPECIFIC_FILES, stageData, async () => {
+			let excludedDirs = [constants.APP_RESOURCES_FOLDER_NAME];
+			if (!changesInfo || !changesInfo.modulesChanged) {
+				excludedDirs.push(constants.TNS_MODULES_FOLDER_NAME);
+			}
 
-		this.$projectFilesManager.processPlatformSpecificFiles(directoryPath, platform, excludedDirs);
+			this.$projectFilesManager.processPlatformSpecificFiles(appDestinationDirectoryPath, platform, excludedDirs);
+			return [];
+		});
 
-		if (!changesInfo || changesInfo.configChanged || changesInfo.modulesChanged) {
-			await platformData.platformProjectService.processConfigurationFilesFromAppResources(appFilesUpdaterOptions.release, projectData);
-		}
+		await this.executePrepareStage(constants.PrepareStages.PROCESS_CONFIGURATION_FILES, stageData, async () => {
+			if (!changesInfo || changesInfo.configChanged || changesInfo.modulesChanged) {
+				await platformData.platformProjectService.processConfigurationFilesFromAppResources(appFilesUpdaterOptions.release, projectData);
+			}
 
-		platformData.platformProjectService.interpolateConfigurationFile(projectData, platformSpecificData);
+			platformData.platformProjectService.interpolateConfigurationFile(projectData, platformSpecificData);
+			return _.compact([platformData.configurationFilePath]);
+		});
 
 		this.$logger.out("Project successfully prepared (" + platform + ")");
 	}
 
-	private async copyAppFiles(platform: string, appFilesUpdaterOptions: IAppFilesUpdaterOptions, projectData: IProjectData): Promise<void> {
+	/**
+	 * Executes a stage of the prepare pipeline, surrounded by the registered handlers of the stage.
+	 * The action of the stage returns the full paths of the files it has processed.
+	 */
+	private async executePrepareStage(stage: string, stageData: IPrepareStageData, action: () => Promise<string[]>): Promise<void> {
+		let handlers = _.filter(this._prepareStageHandlers, handler => handler.stage === stage);
+		stageData.stage = stage;
+		stageData.files = [];
+
+		for (let handler of _.filter(handlers, stageHandler => !!stageHandler.before)) {
+			await handler.before(stageData);
+		}
+
+		stageData.files = await action();
+		this.$logger.trace(`Prepare stage ${stage} has processed ${stageData.files.length} files.`);
+
+		for (let handler of handlers) {
+			if (handler.transformFile) {
+				for (let file of stageData.files) {
+					await handler.transformFile(file, stageData);
+				}
+			}
+
+			if (handler.after) {
+				await handler.after(stageData);
+			}
+		}
+	}
+
+	private copyAppFiles(platform: string, appFilesUpdaterOptions: IAppFilesUpdaterOptions, projectData: IProjectData): string[] {
 		let platformData = this.$platformsData.getPlatformData(platform, projectData);
 		platformData.platformProjectService.ensureConfigurationFileInAppResources(projectData);
 		let appDestinationDirectoryPath = path.join(platformData.appDestinationDirectoryPath, constants.APP_FOLDER_NAME);
@@ -319,68 +400,97 @@ export class PlatformService extends EventEmitter implements IPlatformService {
 		this.$fs.ensureDirectoryExists(appDestinationDirectoryPath);
 		let appSourceDirectoryPath = path.join(projectData.projectDir, constants.APP_FOLDER_NAME);
 
-		const appUpdater = new AppFilesUpdater(appSourceDirectoryPath, appDestinationDirectoryPath, appFilesUpdaterOptions, this.$fs);
+		let appFilesInfoFilePath = path.join(platformData.projectRoot, constants.APP_FILES_INFO_FILE_NAME);
+		let excludedPatterns = this.$projectIgnoreService.getExcludedPatterns(projectData.projectDir, appFilesUpdaterOptions.release);
+		// The platform specific files are renamed or deleted after they are copied, so the sync looks for them by the names of the prepared files.
+		// As when they are processed, the App_Resources are skipped.
+		let getPreparedFilePath = (relativePath: string): string => {
+			if (_.startsWith(relativePath, constants.APP_RESOURCES_FOLDER_NAME + path.sep)) {
+				return relativePath;
+			}
+
+			let projectFileInfo = this.$projectFilesProvider.getProjectFileInfo(path.join(appDestinationDirectoryPath, relativePath), platform);
+			return projectFileInfo.shouldIncludeFile ? path.join(path.dirname(relativePath), projectFileInfo.onDeviceFileName) : null;
+		};
+		const appUpdater = new AppFilesUpdater(appSourceDirectoryPath, appDestinationDirectoryPath, _.extend({ excludedPatterns }, appFilesUpdaterOptions), this.$fs, appFilesInfoFilePath, getPreparedFilePath);
+		let copiedFiles: string[] = [];
 		appUpdater.updateApp(sourceFiles => {
 			this.$xmlValidator.validateXmlFiles(sourceFiles);
+			copiedFiles = _(sourceFiles)
+				.filter(sourceFile => !this.$fs.getFsStats(sourceFile).isDirectory())
+				.map(sourceFile => path.join(appDestinationDirectoryPath, path.relative(appSourceDirectoryPath, sourceFile)))
+				.value();
 		});
+
+		return copiedFiles;
 	}
 
-	private copyAppResources(platform: string, projectData: IProjectData): void {
+	private copyAppResources(platform: string, projectData: IProjectData): string[] {
 		let platformData = this.$platformsData.getPlatformData(platform, projectData);
 		let appDestinationDirectoryPath = path.join(platformData.appDestinationDirectoryPath, constants.APP_FOLDER_NAME);
 		let appResourcesDirectoryPath = path.join(appDestinationDirectoryPath, constants.APP_RESOURCES_FOLDER_NAME);
+		let copiedFiles: string[] = [];
 		if (this.$fs.exists(appResourcesDirectoryPath)) {
 			platformData.platformProjectService.prepareAppResources(appResourcesDirectoryPath, projectData);
 			let appResourcesDestination = platformData.platformProjectService.getAppResourcesDestinationDirectoryPath(projectData);
 			this.$fs.ensureDirectoryExists(appResourcesDestination);
-			shell.cp("-Rf", path.join(appResourcesDirectoryPath, platformData.normalizedPlatformName, "*"), appResourcesDestination);
+			let platformAppResourcesDirectoryPath = path.join(appResourcesDirectoryPath, platformData.normalizedPlatformName);
+			if (this.$fs.exists(platformAppResourcesDirectoryPath)) {
+				copiedFiles = _.map(this.$fs.enumerateFilesInDirectorySync(platformAppResourcesDirectoryPath), file => path.join(appResourcesDestination, path.relative(platformAppResourcesDirectoryPath, file)));
+			}
+
+			shell.cp("-Rf", path.join(platformAppResourcesDirectoryPath, "*"), appResourcesDestination);
 			this.$fs.deleteDirectory(appResourcesDirectoryPath);
 		}
+
+		return copiedFiles;
 	}
 
-	private async copyTnsModules(platform: string, projectData: IProjectData): Promise<void> {
+	private async copyTnsModules(platform: string, appFilesUpdaterOptions: IAppFilesUpdaterOptions, projectData: IProjectData): Promise<IResolvedDependencyData[]> {
 		let platformData = this.$platformsData.getPlatformData(platform, projectData);
-		let appDestinationDirectoryPath = path.join(platformData.appDestinationDirectoryPath, constants.APP_FOLDER_NAME);
-		let lastModifiedTime = this.$fs.exists(appDestinationDirectoryPath) ? this.$fs.getFsStats(appDestinationDirectoryPath).mtime : null;
+		let tnsModulesDestinationPath = path.join(platformData.appDestinationDirectoryPath, constants.APP_FOLDER_NAME, constants.TNS_MODULES_FOLDER_NAME);
+		// Process node_modules folder
+		return this.$nodeModulesBuilder.copyNodeModules(tnsModulesDestinationPath, platform, projectData, appFilesUpdaterOptions);
+	}
 
-		try {
-			let tnsModulesDestinationPath = path.join(appDestinationDirectoryPath, constants.TNS_MODULES_FOLDER_NAME);
-			// Process node_modules folder
-			await this.$nodeModulesBuilder.prepareNodeModules(tnsModulesDestinationPath, platform, lastModifiedTime, projectData);
-		} catch (error) {
-			this.$logger.debug(error);
-			shell.rm("-rf", appDestinationDirectoryPath);
-			this.$errors.failWithoutHelp(`Processing node_modules failed. ${error}`);
-		}
+	public async shouldBuild(platform: string, projectData: IProjectData, buildConfig: IBuildConfig, changesInfo?: IProjectChangesInfo): Promise<boolean> {
+		return !!(await this.getBuildReason(platform, projectData, buildConfig, changesInfo));
 	}
 
-	public async shouldBuild(platform: string, projectData: IProjectData, buildConfig: IBuildConfig): Promise<boolean> {
-		if (this.$projectChangesService.currentChanges.changesRequireBuild) {
-			return true;
+	public async getBuildReason(platform: string, projectData: IProjectData, buildConfig: IBuildConfig, changesInfo?: IProjectChangesInfo): Promise<string> {
+		if (changesInfo && changesInfo.changesRequireBuild) {
+			return "The latest prepare contains changes which require native build.";
 		}
 		let platformData = this.$platformsData.getPlatformData(platform, projectData);
 		let forDevice = !buildConfig || buildConfig.buildForDevice;
 		let outputPath = forDevice ? platformData.deviceBuildOutputPath : platformData.emulatorBuildOutputPath;
 		if (!this.$fs.exists(outputPath)) {
-			return true;
+			return `The build output directory ${outputPath} does not exist.`;
 		}
-		let packageNames = platformData.getValidPackageNames({ isForDevice: forDevice });
+		let packageNames = platformData.getValidPackageNames({ isForDevice: forDevice, isReleaseBuild: buildConfig && buildConfig.release });
 		let packages = this.getApplicationPackages(outputPath, packageNames);
 		if (packages.length === 0) {
-			return true;
+			return `There is no application package in ${outputPath}.`;
 		}
 		let prepareInfo = this.$projectChangesService.getPrepareInfo(platform, projectData);
-		let buildInfo = this.getBuildInfo(platform, platformData, buildConfig);
-		if (!prepareInfo || !buildInfo) {
-			return true;
+		if (!prepareInfo) {
+			return "There is no information about the latest prepare.";
+		}
+		let buildInfo = this.getBuildInfo(platform, platformData, buildConfig, projectData);
+		if (!buildInfo) {
+			return `There is no ${buildInfoFileName} file from a previous build for the ${prepareInfo.configuration} configuration.`;
+		}
+		let buildInfoFileTime = this.$fs.getFsStats(this.getBuildInfoFilePath(platform, platformData, buildConfig, projectData)).mtime.getTime();
+		if (_.some(packages, applicationPackage => applicationPackage.time.getTime() > buildInfoFileTime)) {
+			return "The application package has been built for another configuration after the latest build for the current one.";
 		}
 		if (buildConfig.clean) {
-			return prepareInfo.time !== buildInfo.prepareTime;
+			return prepareInfo.time !== buildInfo.prepareTime ? "Clean build is requested and the project has been prepared since the latest build." : null;
 		}
 		if (prepareInfo.time === buildInfo.prepareTime) {
-			return false;
+			return null;
 		}
-		return prepareInfo.changesRequireBuildTime !== buildInfo.prepareTime;
+		return prepareInfo.changesRequireBuildTime !== buildInfo.prepareTime ? "The latest build is based on an older prepare which contained changes requiring native build." : null;
 	}
 
 	public async trackProjectType(projectData: IProjectData): Promise<void> {
@@ -402,10 +512,22 @@ export class PlatformService extends EventEmitter implements IPlatformService {
 		platformData.platformProjectService.on(constants.BUILD_OUTPUT_EVENT_NAME, (data: any) => {
 			this.emit(constants.BUILD_OUTPUT_EVENT_NAME, data);
 		});
-		await platformData.platformProjectService.buildProject(platformData.projectRoot, projectData, buildConfig);
+		let fingerprint = this.$buildArtifactsCacheService.getFingerprint(platform, projectData, buildConfig);
+		let buildOutputPath = this.getBuildOutputPath(platform, platformData, buildConfig);
+		let skipBuildCache = _.isBoolean(buildConfig.skipBuildCache) ? buildConfig.skipBuildCache : buildConfig.clean;
+		if (fingerprint && !skipBuildCache && this.$buildArtifactsCacheService.restoreArtifact(fingerprint, buildOutputPath)) {
+			this.$logger.out(`Application package restored from the build cache in ${this.$buildArtifactsCacheService.cacheDirectoryPath}.`);
+		} else {
+			await platformData.platformProjectService.buildProject(platformData.projectRoot, projectData, buildConfig);
+			if (fingerprint) {
+				let packageNames = platformData.getValidPackageNames({ isForDevice: buildConfig.buildForDevice, isReleaseBuild: buildConfig.release });
+				let applicationPackage = this.getLatestApplicationPackage(buildOutputPath, packageNames);
+				this.$buildArtifactsCacheService.storeArtifact(fingerprint, applicationPackage.packageName);
+			}
+		}
+
 		let prepareInfo = this.$projectChangesService.getPrepareInfo(platform, projectData);
-		let buildInfoFilePath = this.getBuildOutputPath(platform, platformData, buildConfig);
-		let buildInfoFile = path.join(buildInfoFilePath, buildInfoFileName);
+		let buildInfoFile = this.getBuildInfoFilePath(platform, platformData, buildConfig, projectData);
 		let buildInfo: IBuildInfo = {
 			prepareTime: prepareInfo.changesRequireBuildTime,
 			buildTime: new Date().toString()
@@ -421,7 +543,7 @@ export class PlatformService extends EventEmitter implements IPlatformService {
 			return true;
 		}
 		let deviceBuildInfo: IBuildInfo = await this.getDeviceBuildInfo(device, projectData);
-		let localBuildInfo = this.getBuildInfo(platform, platformData, { buildForDevice: !device.isEmulator });
+		let localBuildInfo = this.getBuildInfo(platform, platformData, { buildForDevice: !device.isEmulator }, projectData);
 		return !localBuildInfo || !deviceBuildInfo || deviceBuildInfo.buildTime !== localBuildInfo.buildTime;
 	}
 
@@ -441,17 +563,17 @@ export class PlatformService extends EventEmitter implements IPlatformService {
 
 		if (!buildConfig.release) {
 			let deviceFilePath = await this.getDeviceBuildInfoFilePath(device, projectData);
-			let buildInfoFilePath = this.getBuildOutputPath(device.deviceInfo.platform, platformData, { buildForDevice: !device.isEmulator });
+			let buildInfoFilePath = this.getBuildInfoFilePath(device.deviceInfo.platform, platformData, { buildForDevice: !device.isEmulator }, projectData);
 			let appIdentifier = projectData.projectId;
 
-			await device.fileSystem.putFile(path.join(buildInfoFilePath, buildInfoFileName), deviceFilePath, appIdentifier);
+			await device.fileSystem.putFile(buildInfoFilePath, deviceFilePath, appIdentifier);
 		}
 
 		this.$logger.out(`Successfully installed on device with identifier '${device.deviceInfo.identifier}'.`);
 	}
 
 	public async deployPlatform(platform: string, appFilesUpdaterOptions: IAppFilesUpdaterOptions, deployOptions: IDeployPlatformOptions, projectData: IProjectData, platformSpecificData: IPlatformSpecificData): Promise<void> {
-		await this.preparePlatform(platform, appFilesUpdaterOptions, deployOptions.platformTemplate, projectData, platformSpecificData);
+		let changesInfo = await this.preparePlatform(platform, appFilesUpdaterOptions, deployOptions.platformTemplate, projectData, platformSpecificData);
 		this.$logger.out("Searching for devices...");
 		await this.$devicesService.initialize({ platform: platform, deviceId: deployOptions.device });
 		let action = async (device: Mobile.IDevice): Promise<void> => {
@@ -467,7 +589,7 @@ export class PlatformService extends EventEmitter implements IPlatformService {
 				keyStorePassword: deployOptions.keyStorePassword,
 				keyStorePath: deployOptions.keyStorePath
 			};
-			let shouldBuild = await this.shouldBuild(platform, projectData, buildConfig);
+			let shouldBuild = await this.shouldBuild(platform, projectData, buildConfig, changesInfo);
 			if (shouldBuild) {
 				await this.buildPlatform(platform, buildConfig, projectData);
 			} else {
@@ -556,9 +678,16 @@ export class PlatformService extends EventEmitter implements IPlatformService {
 		}
 	}
 
-	private getBuildInfo(platform: string, platformData: IPlatformData, options: IBuildForDevice): IBuildInfo {
-		let buildInfoFilePath = this.getBuildOutputPath(platform, platformData, options);
-		let buildInfoFile = path.join(buildInfoFilePath, buildInfoFileName);
+	private getBuildInfoFilePath(platform: string, platformData: IPlatformData, options: IBuildForDevice, projectData: IProjectData): string {
+		// The build outputs of the different configurations are kept side by side, so each of them has its own build info.
+		let prepareInfo = this.$projectChangesService.getPrepareInfo(platform, projectData);
+		let configuration = prepareInfo && prepareInfo.configuration;
+		let fileName = configuration ? `${buildInfoFileName}.${configuration}` : buildInfoFileName;
+		return path.join(this.getBuildOutputPath(platform, platformData, options), fileName);
+	}
+
+	private getBuildInfo(platform: string, platformData: IPlatformData, options: IBuildForDevice, projectData: IProjectData): IBuildInfo {
+		let buildInfoFile = this.getBuildInfoFilePath(platform, platformData, options, projectData);
 		if (this.$fs.exists(buildInfoFile)) {
 			try {
 				let buildInfoTime = this.$fs.readJson(buildInfoFile);
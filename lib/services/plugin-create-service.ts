@@ -0,0 +1,112 @@
+import * as path from "path";
+import * as semver from "semver";
+
+export class PluginCreateService implements IPluginCreateService {
+	private static PLUGIN_TEMPLATE_DIR = "plugin-template";
+	private static TEMPLATE_FILE_EXTENSION = ".template";
+	private static DEMO_APP_NAME = "demo";
+	private static PLUGIN_NAME_REGEXP = /^(@[a-z0-9-~][a-z0-9-._~]*\/)?[a-z0-9-~][a-z0-9-._~]*$/;
+
+	constructor(private $errors: IErrors,
+		private $fs: IFileSystem,
+		private $logger: ILogger,
+		private $projectService: IProjectService,
+		private $resources: IResourceLoader,
+		private $staticConfig: IStaticConfig) { }
+
+	public async createPlugin(pluginSettings: IPluginCreateSettings): Promise<string> {
+		let pluginName = pluginSettings.pluginName;
+		if (!pluginName) {
+			this.$errors.fail("You must specify <Plugin name> when creating a new plugin.");
+		}
+
+		if (!PluginCreateService.PLUGIN_NAME_REGEXP.test(pluginName)) {
+			this.$errors.failWithoutHelp(`${pluginName} is not a valid npm package name. Use lowercase letters, digits, dashes, dots and underscores.`);
+		}
+
+		let pluginDir = path.join(path.resolve(pluginSettings.pathToPlugin || "."), _.last(pluginName.split("/")));
+		if (this.$fs.exists(pluginDir) && !this.$fs.isEmptyDir(pluginDir)) {
+			this.$errors.failWithoutHelp(`Path already exists and is not empty ${pluginDir}`);
+		}
+
+		let variables = pluginSettings.variables || {};
+		this.$logger.trace(`Creating a new NativeScript plugin with name ${pluginName} at location ${pluginDir}`);
+		this.createPackageJson(pluginDir, pluginName, variables);
+		this.copyTemplateFiles(pluginDir, {
+			pluginName,
+			className: this.getClassName(pluginName),
+			variables: _.keys(variables)
+		});
+
+		await this.$projectService.createProject({
+			projectName: PluginCreateService.DEMO_APP_NAME,
+			pathToProject: pluginDir,
+			ignoreScripts: pluginSettings.ignoreScripts
+		});
+
+		// The demo app uses the plugin from the parent directory, so the changes in the plugin are used after it is built.
+		let demoPackageJsonPath = path.join(pluginDir, PluginCreateService.DEMO_APP_NAME, this.$staticConfig.PROJECT_FILE_NAME);
+		let demoPackageJson = this.$fs.readJson(demoPackageJsonPath);
+		demoPackageJson.dependencies = _.extend(demoPackageJson.dependencies, { [pluginName]: "file:.." });
+		this.$fs.writeJson(demoPackageJsonPath, demoPackageJson);
+
+		this.$logger.printMarkdown("Plugin `%s` was successfully created.", pluginName);
+		return pluginDir;
+	}
+
+	private createPackageJson(pluginDir: string, pluginName: string, variables: IStringDictionary): void {
+		// The plugin supports the runtimes released together with this version of the CLI and later.
+		let runtimeVersion = `${semver.major(this.$staticConfig.version)}.${semver.minor(this.$staticConfig.version)}.0`;
+		let nativescript: any = {
+			platforms: {
+				android: runtimeVersion,
+				ios: runtimeVersion
+			}
+		};
+
+		if (!_.isEmpty(variables)) {
+			nativescript.variables = _.mapValues(variables, defaultValue => defaultValue ? { defaultValue } : {});
+		}
+
+		this.$fs.writeJson(path.join(pluginDir, this.$staticConfig.PROJECT_FILE_NAME), {
+			name: pluginName,
+			version: "1.0.0",
+			description: "NativeScript plugin",
+			main: "index",
+			typings: "index.d.ts",
+			nativescript,
+			scripts: {
+				build: "tsc"
+			},
+			files: ["*.js", "*.d.ts", "platforms"],
+			devDependencies: {
+				typescript: "~2.1.0"
+			}
+		});
+	}
+
+	private copyTemplateFiles(pluginDir: string, templateData: any): void {
+		let templateDir = this.$resources.resolvePath(PluginCreateService.PLUGIN_TEMPLATE_DIR);
+		_.each(this.$fs.enumerateFilesInDirectorySync(templateDir), templateFilePath => {
+			// TypeScript files are stored with an additional extension, so that they are not compiled with the CLI.
+			let relativePath = path.relative(templateDir, templateFilePath);
+			if (path.extname(relativePath) === PluginCreateService.TEMPLATE_FILE_EXTENSION) {
+				relativePath = relativePath.substr(0, relativePath.length - PluginCreateService.TEMPLATE_FILE_EXTENSION.length);
+			}
+
+			let content = _.template(this.$fs.readText(templateFilePath))(templateData);
+			this.$fs.writeFile(path.join(pluginDir, relativePath), content);
+		});
+	}
+
+	/**
+	 * Gets the name of the class exported by the plugin, e.g. Camera for nativescript-camera.
+	 */
+	private getClassName(pluginName: string): string {
+		let unscopedName = _.last(pluginName.split("/")).replace(/^nativescript-/, "");
+		let className = _.upperFirst(_.camelCase(unscopedName));
+		return /^[A-Za-z]/.test(className) ? className : `Plugin${className}`;
+	}
+}
+
+$injector.register("pluginCreateService", PluginCreateService);
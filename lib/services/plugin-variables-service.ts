@@ -1,4 +1,5 @@
 import * as helpers from "./../common/helpers";
+import { PluginVariableTypes } from "../constants";
 
 export class PluginVariablesService implements IPluginVariablesService {
 	private static PLUGIN_VARIABLES_KEY = "variables";
@@ -7,7 +8,8 @@ export class PluginVariablesService implements IPluginVariablesService {
 		private $pluginVariablesHelper: IPluginVariablesHelper,
 		private $projectDataService: IProjectDataService,
 		private $prompter: IPrompter,
-		private $fs: IFileSystem) { }
+		private $fs: IFileSystem,
+		private $options: IOptions) { }
 
 	public getPluginVariablePropertyName(pluginName: string): string {
 		return `${pluginName}-${PluginVariablesService.PLUGIN_VARIABLES_KEY}`;
@@ -16,8 +18,20 @@ export class PluginVariablesService implements IPluginVariablesService {
 	public async savePluginVariablesInProjectFile(pluginData: IPluginData, projectData: IProjectData): Promise<void> {
 		let values = Object.create(null);
 		await this.executeForAllPluginVariables(pluginData, async (pluginVariableData: IPluginVariableData) => {
-			let pluginVariableValue = await this.getPluginVariableValue(pluginVariableData);
+			let environmentValue = this.getEnvironmentValue(pluginVariableData);
+			if (environmentValue && pluginVariableData.secret) {
+				// Secret values are read from the environment at prepare time, so they are not saved in package.json.
+				this.ensureValidPluginVariableValue(pluginData, pluginVariableData.name, environmentValue);
+				return;
+			}
+
+			let pluginVariableValue = await this.getPluginVariableValue(pluginData, pluginVariableData);
+			if (!pluginVariableValue && pluginVariableData.required === false) {
+				return;
+			}
+
 			this.ensurePluginVariableValue(pluginVariableValue, `Unable to find value for ${pluginVariableData.name} plugin variable from ${pluginData.name} plugin. Ensure the --var option is specified or the plugin variable has default value.`);
+			this.ensureValidPluginVariableValue(pluginData, pluginVariableData.name, pluginVariableValue);
 			values[pluginVariableData.name] = pluginVariableValue;
 		}, projectData);
 
@@ -26,6 +40,38 @@ export class PluginVariablesService implements IPluginVariablesService {
 		}
 	}
 
+	public getPluginVariablesValues(pluginData: IPluginData, projectData: IProjectData): IStringDictionary {
+		let values: IStringDictionary = {};
+		_.each(_.keys(pluginData.pluginVariables), pluginVariableName => {
+			let value = this.createPluginVariableData(pluginData, pluginVariableName, projectData).value;
+			if (value) {
+				values[pluginVariableName] = value;
+			}
+		});
+
+		return values;
+	}
+
+	public validatePluginVariableValue(pluginData: IPluginData, pluginVariableName: string, value: string): string {
+		let pluginVariableData = pluginData.pluginVariables[pluginVariableName];
+		let type = pluginVariableData.type || PluginVariableTypes.STRING;
+		let invalidValueMessage = `The value${pluginVariableData.secret ? "" : ` ${value}`} of ${pluginVariableName} plugin variable from ${pluginData.name} plugin`;
+
+		if (!_.includes([PluginVariableTypes.STRING, PluginVariableTypes.NUMBER, PluginVariableTypes.BOOLEAN], type)) {
+			return `The type ${type} of ${pluginVariableName} plugin variable from ${pluginData.name} plugin is not supported. Use ${PluginVariableTypes.STRING}, ${PluginVariableTypes.NUMBER} or ${PluginVariableTypes.BOOLEAN}.`;
+		} else if (type === PluginVariableTypes.NUMBER && (!value.trim() || isNaN(+value))) {
+			return `${invalidValueMessage} is not a number.`;
+		} else if (type === PluginVariableTypes.BOOLEAN && value !== "true" && value !== "false") {
+			return `${invalidValueMessage} is not true or false.`;
+		} else if (pluginVariableData.enum && !_.includes(_.map(pluginVariableData.enum, String), value)) {
+			return `${invalidValueMessage} is not one of ${pluginVariableData.enum.join(", ")}.`;
+		} else if (pluginVariableData.pattern && !new RegExp(pluginVariableData.pattern).test(value)) {
+			return `${invalidValueMessage} does not match the pattern ${pluginVariableData.pattern}.`;
+		}
+
+		return null;
+	}
+
 	public removePluginVariablesFromProjectFile(pluginName: string, projectData: IProjectData): void {
 		this.$projectDataService.removeNSProperty(projectData.projectDir, this.getPluginVariablePropertyName(pluginName));
 	}
@@ -33,8 +79,15 @@ export class PluginVariablesService implements IPluginVariablesService {
 	public async interpolatePluginVariables(pluginData: IPluginData, pluginConfigurationFilePath: string, projectData: IProjectData): Promise<void> {
 		let pluginConfigurationFileContent = this.$fs.readText(pluginConfigurationFilePath);
 		await this.executeForAllPluginVariables(pluginData, async (pluginVariableData: IPluginVariableData) => {
-			this.ensurePluginVariableValue(pluginVariableData.value, `Unable to find the value for ${pluginVariableData.name} plugin variable into project package.json file. Verify that your package.json file is correct and try again.`);
-			pluginConfigurationFileContent = this.interpolateCore(pluginVariableData.name, pluginVariableData.value, pluginConfigurationFileContent);
+			if (pluginVariableData.required !== false) {
+				this.ensurePluginVariableValue(pluginVariableData.value, `Unable to find the value for ${pluginVariableData.name} plugin variable into project package.json file. Verify that your package.json file is correct and try again.`);
+			}
+
+			if (pluginVariableData.value) {
+				this.ensureValidPluginVariableValue(pluginData, pluginVariableData.name, pluginVariableData.value);
+			}
+
+			pluginConfigurationFileContent = this.interpolateCore(pluginVariableData.name, pluginVariableData.value || "", pluginConfigurationFileContent);
 		}, projectData);
 
 		this.$fs.writeFile(pluginConfigurationFilePath, pluginConfigurationFileContent);
@@ -61,26 +114,50 @@ export class PluginVariablesService implements IPluginVariablesService {
 		}
 	}
 
-	private async getPluginVariableValue(pluginVariableData: IPluginVariableData): Promise<string> {
+	private ensureValidPluginVariableValue(pluginData: IPluginData, pluginVariableName: string, value: string): void {
+		let errorMessage = this.validatePluginVariableValue(pluginData, pluginVariableName, value);
+		if (errorMessage) {
+			this.$errors.failWithoutHelp(errorMessage);
+		}
+	}
+
+	private getEnvironmentValue(pluginVariableData: IPluginVariableData): string {
+		return pluginVariableData.env ? process.env[pluginVariableData.env] : undefined;
+	}
+
+	/**
+	 * The value saved in package.json is either the same for all build configurations or an object with debug and release values.
+	 */
+	private getConfigurationValue(savedValue: any): string {
+		if (_.isPlainObject(savedValue)) {
+			savedValue = savedValue[this.$options.release ? "release" : "debug"];
+		}
+
+		return savedValue === undefined || savedValue === null ? undefined : savedValue.toString();
+	}
+
+	private async getPluginVariableValue(pluginData: IPluginData, pluginVariableData: IPluginVariableData): Promise<string> {
 		let pluginVariableName = pluginVariableData.name;
 		let value = this.$pluginVariablesHelper.getPluginVariableFromVarOption(pluginVariableName);
 		if (value) {
 			value = value[pluginVariableName];
 		} else {
-			value = pluginVariableData.defaultValue;
-			if (!value && helpers.isInteractive()) {
+			value = this.getEnvironmentValue(pluginVariableData) || pluginVariableData.defaultValue;
+			if (!value && pluginVariableData.required !== false && helpers.isInteractive()) {
+				let description = pluginVariableData.description ? ` (${pluginVariableData.description})` : "";
 				let promptSchema = {
 					name: pluginVariableName,
-					type: "input",
-					message: `Enter value for ${pluginVariableName} variable:`,
-					validate: (val: string) => !!val ? true : 'Please enter a value!'
+					type: pluginVariableData.secret ? "password" : "input",
+					message: `Enter value for ${pluginVariableName} variable${description}:`,
+					validate: (val: string) => !!val ? this.validatePluginVariableValue(pluginData, pluginVariableName, val) || true : 'Please enter a value!'
 				};
 				let promptData = await this.$prompter.get([promptSchema]);
 				value = promptData[pluginVariableName];
 			}
 		}
 
-		return value;
+		// Values passed with --var and default values may be parsed as numbers or booleans.
+		return value === undefined || value === null ? value : value.toString();
 	}
 
 	private async executeForAllPluginVariables(pluginData: IPluginData, action: (pluginVariableData: IPluginVariableData) => Promise<void>, projectData: IProjectData): Promise<void> {
@@ -95,7 +172,7 @@ export class PluginVariablesService implements IPluginVariablesService {
 		variableData.name = pluginVariableName;
 
 		const pluginVariableValues = this.$projectDataService.getNSValue(projectData.projectDir, this.getPluginVariablePropertyName(pluginData.name));
-		variableData.value = pluginVariableValues ? pluginVariableValues[pluginVariableName] : undefined;
+		variableData.value = this.getEnvironmentValue(variableData) || this.getConfigurationValue(pluginVariableValues ? pluginVariableValues[pluginVariableName] : undefined);
 
 		return variableData;
 	}
@@ -2,6 +2,13 @@ import * as path from "path";
 import * as shelljs from "shelljs";
 import * as semver from "semver";
 import * as constants from "../constants";
+import * as temp from "temp";
+temp.track();
+
+interface ILinkedPluginRecord {
+	path: string;
+	previousVersion: string;
+}
 
 export class PluginsService implements IPluginsService {
 	private static INSTALL_COMMAND_NAME = "install";
@@ -9,6 +16,23 @@ export class PluginsService implements IPluginsService {
 	private static NPM_CONFIG = {
 		save: true
 	};
+	private static INSPECT_NPM_CONFIG = {
+		save: true,
+		"ignore-scripts": true
+	};
+	private static NATIVE_CONTENT_TYPES: IStringDictionary = {
+		".framework": "Framework",
+		".a": "Static library",
+		"Podfile": "Podfile",
+		"Info.plist": "Info.plist",
+		".xcconfig": "xcconfig",
+		"include.gradle": "include.gradle",
+		"AndroidManifest.xml": "AndroidManifest.xml",
+		".jar": "JAR",
+		".aar": "AAR"
+	};
+	private static NATIVE_LIBRARY_TYPES = ["Framework", "Static library", "JAR", "AAR"];
+	private static SECRET_VALUE_MASK = "********";
 	private get $platformsData(): IPlatformsData {
 		return this.$injector.resolve("platformsData");
 	}
@@ -93,6 +117,78 @@ export class PluginsService implements IPluginsService {
 		}
 	}
 
+	public async link(pluginPath: string, projectData: IProjectData): Promise<void> {
+		await this.ensure(projectData);
+		let pluginDir = path.resolve(pluginPath);
+		let pluginPackageJsonPath = this.getPackageJsonFilePath(pluginDir);
+		if (!this.$fs.exists(pluginPackageJsonPath)) {
+			this.$errors.failWithoutHelp(`${pluginPath} is not a directory with a package.json file.`);
+		}
+
+		let pluginPackageJson = this.$fs.readJson(pluginPackageJsonPath);
+		if (!pluginPackageJson.nativescript) {
+			this.$errors.failWithoutHelp(`${pluginPath} is not a valid NativeScript plugin. Verify that the plugin package.json file contains a nativescript key and try again.`);
+		}
+
+		let pluginName = pluginPackageJson.name;
+		let pluginData = this.convertToPluginData(pluginPackageJson, projectData.projectDir);
+		_.each(this.getInstalledPlatforms(projectData), platform => this.isPluginDataValidForPlatform(pluginData, platform, projectData));
+
+		// The dependency used before the first link is kept, so linking the plugin again from another directory does not lose it.
+		let linkedPlugins = this.getLinkedPluginRecords(projectData);
+		let previousVersion = linkedPlugins[pluginName] ? linkedPlugins[pluginName].previousVersion : this.getProjectDependencies(projectData)[pluginName] || null;
+		let relativePluginPath = path.relative(projectData.projectDir, pluginDir).split(path.sep).join("/");
+
+		let linkPath = path.join(this.getNodeModulesPath(projectData.projectDir), pluginName);
+		shelljs.rm("-rf", linkPath);
+		this.$fs.ensureDirectoryExists(path.dirname(linkPath));
+		this.$fs.symlink(pluginDir, linkPath, "junction");
+
+		this.setProjectDependency(pluginName, `file:${relativePluginPath}`, projectData);
+		linkedPlugins[pluginName] = { path: relativePluginPath, previousVersion };
+		this.$projectDataService.setNSValue(projectData.projectDir, constants.LINKED_PLUGINS_KEY_NAME, linkedPlugins);
+
+		await this.$pluginVariablesService.savePluginVariablesInProjectFile(pluginData, projectData);
+		this.$logger.out(`Successfully linked plugin ${pluginName} from ${pluginDir}.`);
+	}
+
+	public async unlink(pluginName: string, projectData: IProjectData): Promise<void> {
+		let linkedPlugins = this.getLinkedPluginRecords(projectData);
+		let linkedPlugin = linkedPlugins[pluginName];
+		if (!linkedPlugin) {
+			this.$errors.failWithoutHelp(`Plugin ${pluginName} is not linked to the project.`);
+		}
+
+		delete linkedPlugins[pluginName];
+		if (_.isEmpty(linkedPlugins)) {
+			this.$projectDataService.removeNSProperty(projectData.projectDir, constants.LINKED_PLUGINS_KEY_NAME);
+		} else {
+			this.$projectDataService.setNSValue(projectData.projectDir, constants.LINKED_PLUGINS_KEY_NAME, linkedPlugins);
+		}
+
+		// Only the link is deleted, the local directory of the plugin is not modified.
+		shelljs.rm("-rf", path.join(this.getNodeModulesPath(projectData.projectDir), pluginName));
+		if (linkedPlugin.previousVersion) {
+			// The dependency is restored as it was written, so ranges and tags are not replaced with the version npm installs.
+			this.setProjectDependency(pluginName, linkedPlugin.previousVersion, projectData);
+			await this.ensureAllDependenciesAreInstalled(projectData);
+			this.$logger.out(`Successfully unlinked plugin ${pluginName} and restored version ${linkedPlugin.previousVersion}.`);
+		} else {
+			// The native code of the plugin is removed from the platforms on the next prepare.
+			this.$pluginVariablesService.removePluginVariablesFromProjectFile(pluginName.toLowerCase(), projectData);
+			this.$projectDataService.removeDependency(projectData.projectDir, pluginName);
+			this.$logger.out(`Successfully unlinked plugin ${pluginName}. It was not a dependency of the project before it was linked, so it is removed.`);
+		}
+	}
+
+	public getLinkedPlugins(projectData: IProjectData): ILinkedPluginData[] {
+		return _.map(this.getLinkedPluginRecords(projectData), (linkedPlugin: ILinkedPluginRecord, name: string) => ({
+			name,
+			directory: path.resolve(projectData.projectDir, linkedPlugin.path),
+			previousVersion: linkedPlugin.previousVersion
+		}));
+	}
+
 	public getAvailable(filter: string[]): Promise<IDictionary<any>> {
 		let silent: boolean = true;
 		return this.$npm.search(filter, { "silent": silent });
@@ -117,6 +213,12 @@ export class PluginsService implements IPluginsService {
 		}
 	}
 
+	public async removeNativeCode(dependencyData: IDependencyData, platform: string, projectData: IProjectData): Promise<void> {
+		let platformData = this.$platformsData.getPlatformData(platform.toLowerCase(), projectData);
+		let pluginData = this.convertToPluginData(dependencyData, projectData.projectDir);
+		await platformData.platformProjectService.removePluginNativeCode(pluginData, projectData);
+	}
+
 	private preparePluginScripts(pluginData: IPluginData, platform: string, projectData: IProjectData): void {
 		let platformData = this.$platformsData.getPlatformData(platform, projectData);
 		let pluginScriptsDestinationPath = path.join(platformData.appDestinationDirectoryPath, constants.APP_FOLDER_NAME, "tns_modules");
@@ -179,6 +281,199 @@ export class PluginsService implements IPluginsService {
 		};
 	}
 
+	public async getPluginInfo(plugin: string, projectData: IProjectData): Promise<IPluginInfo> {
+		let packageJsonPath = this.getPackageJsonFilePathForModule(plugin, projectData.projectDir);
+		let isInstalled = this.$fs.exists(packageJsonPath);
+		if (!isInstalled) {
+			packageJsonPath = await this.installPluginInTemporaryDirectory(plugin);
+		}
+
+		let pluginData = this.convertToPluginData(_.extend({ directory: path.dirname(packageJsonPath) }, this.$fs.readJson(packageJsonPath)), projectData.projectDir);
+		let variablesValues = pluginData.isPlugin ? this.$pluginVariablesService.getPluginVariablesValues(pluginData, projectData) : {};
+
+		return {
+			name: pluginData.name,
+			version: pluginData.version,
+			isInstalled,
+			isPlugin: pluginData.isPlugin,
+			platforms: _.map(this.$platformsData.platformsNames, platform => {
+				let minimumRuntimeVersion: string = pluginData.platformsData ? (<any>pluginData.platformsData)[platform] || null : null;
+				return {
+					platform,
+					isSupported: pluginData.isPlugin && (!pluginData.platformsData || !!minimumRuntimeVersion),
+					minimumRuntimeVersion,
+					nativeContents: this.getPluginNativeContents(pluginData.pluginPlatformsFolderPath(platform))
+				};
+			}),
+			variables: _.map(pluginData.pluginVariables, (variableData: IPluginVariableData, name: string) => ({
+				name,
+				defaultValue: variableData.defaultValue === undefined ? null : variableData.defaultValue,
+				value: variablesValues[name] === undefined ? null : (variableData.secret ? PluginsService.SECRET_VALUE_MASK : variablesValues[name])
+			}))
+		};
+	}
+
+	public async checkPlugins(projectData: IProjectData): Promise<IPluginCheckIssue[]> {
+		let plugins = await this.getAllInstalledPlugins(projectData);
+		let installedPlatforms = this.getInstalledPlatforms(projectData);
+		let issues: IPluginCheckIssue[] = [];
+
+		_.each(plugins, pluginData => {
+			_.each(installedPlatforms, platform => {
+				let issue = this.getPluginPlatformIssue(pluginData, platform, projectData);
+				if (issue) {
+					issues.push(issue);
+				}
+			});
+
+			issues = issues.concat(this.getVariablesIssues(pluginData, projectData));
+		});
+
+		_.each(this.$platformsData.platformsNames, platform => {
+			issues = issues.concat(this.getNativeConflictsIssues(plugins, platform));
+		});
+
+		return issues;
+	}
+
+	private getVariablesIssues(pluginData: IPluginData, projectData: IProjectData): IPluginCheckIssue[] {
+		let variablesValues = this.$pluginVariablesService.getPluginVariablesValues(pluginData, projectData);
+		let issues: IPluginCheckIssue[] = [];
+		_.each(pluginData.pluginVariables, (variableData: IPluginVariableData, variableName: string) => {
+			let value = variablesValues[variableName];
+			if (!value && variableData.required !== false) {
+				issues.push({
+					type: constants.PluginCheckIssueTypes.MISSING_VARIABLE,
+					platform: null,
+					plugins: [pluginData.name],
+					message: `The value of the ${variableName} variable of ${pluginData.name} is not set in the package.json of the project.`
+				});
+			}
+
+			let errorMessage = value && this.$pluginVariablesService.validatePluginVariableValue(pluginData, variableName, value);
+			if (errorMessage) {
+				issues.push({
+					type: constants.PluginCheckIssueTypes.INVALID_VARIABLE,
+					platform: null,
+					plugins: [pluginData.name],
+					message: errorMessage
+				});
+			}
+		});
+
+		return issues;
+	}
+
+	private getNativeConflictsIssues(plugins: IPluginData[], platform: string): IPluginCheckIssue[] {
+		let issues: IPluginCheckIssue[] = [];
+		let librariesPlugins: IDictionary<string[]> = {};
+		let podsVersions: IDictionary<IStringDictionary> = {};
+
+		_.each(plugins, pluginData => {
+			let pluginPlatformsFolderPath = pluginData.pluginPlatformsFolderPath(platform);
+			_.each(this.getPluginNativeContents(pluginPlatformsFolderPath), nativeContent => {
+				if (_.includes(PluginsService.NATIVE_LIBRARY_TYPES, nativeContent.type)) {
+					let libraryName = path.basename(nativeContent.path);
+					librariesPlugins[libraryName] = _.union(librariesPlugins[libraryName], [pluginData.name]);
+				}
+			});
+
+			let podfilePath = path.join(pluginPlatformsFolderPath, "Podfile");
+			if (this.$fs.exists(podfilePath)) {
+				let podfileContent = this.$fs.readText(podfilePath);
+				let podRegExp = /^\s*pod\s+['"]([^'"]+)['"](?:\s*,\s*['"]([^'"]+)['"])?/gm;
+				let match: RegExpExecArray;
+				while (match = podRegExp.exec(podfileContent)) {
+					let podName = match[1];
+					let podVersion = match[2];
+					if (podVersion) {
+						podsVersions[podName] = podsVersions[podName] || {};
+						podsVersions[podName][pluginData.name] = podVersion;
+					}
+				}
+			}
+		});
+
+		_.each(librariesPlugins, (pluginNames, libraryName) => {
+			if (pluginNames.length > 1) {
+				issues.push({
+					type: constants.PluginCheckIssueTypes.DUPLICATE_LIBRARY,
+					platform,
+					plugins: pluginNames,
+					message: `${libraryName} is included in more than one plugin: ${pluginNames.join(", ")}.`
+				});
+			}
+		});
+
+		_.each(podsVersions, (pluginsVersions, podName) => {
+			if (_.uniq(_.values(pluginsVersions)).length > 1) {
+				issues.push({
+					type: constants.PluginCheckIssueTypes.CONFLICTING_POD,
+					platform,
+					plugins: _.keys(pluginsVersions),
+					message: `The pod ${podName} is required in different versions: ${_.map(pluginsVersions, (version, pluginName) => `${version} by ${pluginName}`).join(", ")}.`
+				});
+			}
+		});
+
+		return issues;
+	}
+
+	private async installPluginInTemporaryDirectory(plugin: string): Promise<string> {
+		let tempDir = temp.mkdirSync("plugin-info");
+		this.$fs.writeJson(this.getPackageJsonFilePath(tempDir), { name: "plugin-info", version: "0.0.0" });
+
+		let name: string;
+		try {
+			name = (await this.$npm.install(plugin, tempDir, PluginsService.INSPECT_NPM_CONFIG))[0];
+		} catch (err) {
+			this.$logger.trace(`Error while trying to install ${plugin}: `, err);
+		}
+
+		if (!name) {
+			this.$errors.failWithoutHelp(`The plugin ${plugin} is not installed in the project and npm is unable to install it.`);
+		}
+
+		return this.getPackageJsonFilePathForModule(name, tempDir);
+	}
+
+	private getPluginNativeContents(pluginPlatformsFolderPath: string): IPluginNativeContent[] {
+		let nativeContents: IPluginNativeContent[] = [];
+		if (!this.$fs.exists(pluginPlatformsFolderPath)) {
+			return nativeContents;
+		}
+
+		let collectNativeContents = (directoryPath: string): void => {
+			_.each(this.$fs.readDirectory(directoryPath), fileName => {
+				let filePath = path.join(directoryPath, fileName);
+				let type = PluginsService.NATIVE_CONTENT_TYPES[fileName] || PluginsService.NATIVE_CONTENT_TYPES[path.extname(fileName)];
+				if (type) {
+					nativeContents.push({ type, path: path.relative(pluginPlatformsFolderPath, filePath) });
+				} else if (this.$fs.getFsStats(filePath).isDirectory()) {
+					collectNativeContents(filePath);
+				}
+			});
+		};
+
+		collectNativeContents(pluginPlatformsFolderPath);
+		return nativeContents;
+	}
+
+	private getLinkedPluginRecords(projectData: IProjectData): IDictionary<ILinkedPluginRecord> {
+		return this.$projectDataService.getNSValue(projectData.projectDir, constants.LINKED_PLUGINS_KEY_NAME) || {};
+	}
+
+	private getProjectDependencies(projectData: IProjectData): IStringDictionary {
+		return this.$fs.readJson(this.getPackageJsonFilePath(projectData.projectDir)).dependencies || {};
+	}
+
+	private setProjectDependency(name: string, version: string, projectData: IProjectData): void {
+		let packageJsonFilePath = this.getPackageJsonFilePath(projectData.projectDir);
+		let packageJson = this.$fs.readJson(packageJsonFilePath);
+		packageJson.dependencies = _.extend(packageJson.dependencies, { [name]: version });
+		this.$fs.writeJson(packageJsonFilePath, packageJson);
+	}
+
 	private getBasicPluginInformation(dependencies: any): IBasePluginData[] {
 		return _.map(dependencies, (version: string, key: string) => ({
 			name: key,
@@ -262,40 +557,61 @@ export class PluginsService implements IPluginsService {
 	}
 
 	private async executeForAllInstalledPlatforms(action: (_pluginDestinationPath: string, pl: string, _platformData: IPlatformData) => Promise<void>, projectData: IProjectData): Promise<void> {
-		let availablePlatforms = _.keys(this.$platformsData.availablePlatforms);
-		for (let platform of availablePlatforms) {
-			let isPlatformInstalled = this.$fs.exists(path.join(projectData.platformsDir, platform.toLowerCase()));
-			if (isPlatformInstalled) {
-				let platformData = this.$platformsData.getPlatformData(platform.toLowerCase(), projectData);
-				let pluginDestinationPath = path.join(platformData.appDestinationDirectoryPath, constants.APP_FOLDER_NAME, "tns_modules");
-				await action(pluginDestinationPath, platform.toLowerCase(), platformData);
-			}
+		for (let platform of this.getInstalledPlatforms(projectData)) {
+			let platformData = this.$platformsData.getPlatformData(platform, projectData);
+			let pluginDestinationPath = path.join(platformData.appDestinationDirectoryPath, constants.APP_FOLDER_NAME, "tns_modules");
+			await action(pluginDestinationPath, platform, platformData);
 		};
 	}
 
+	private getInstalledPlatforms(projectData: IProjectData): string[] {
+		return _(this.$platformsData.availablePlatforms)
+			.keys()
+			.map(platform => platform.toLowerCase())
+			.filter(platform => this.$fs.exists(path.join(projectData.platformsDir, platform)))
+			.value();
+	}
+
 	private getInstalledFrameworkVersion(platform: string, projectData: IProjectData): string {
 		let platformData = this.$platformsData.getPlatformData(platform, projectData);
 		const frameworkData = this.$projectDataService.getNSValue(projectData.projectDir, platformData.frameworkPackageName);
-		return frameworkData.version;
+		return frameworkData && frameworkData.version;
 	}
 
 	private isPluginDataValidForPlatform(pluginData: IPluginData, platform: string, projectData: IProjectData): boolean {
-		let isValid = true;
+		let issue = this.getPluginPlatformIssue(pluginData, platform, projectData);
+		if (issue) {
+			this.$logger.warn(issue.message);
+		}
+
+		return !issue;
+	}
 
-		let installedFrameworkVersion = this.getInstalledFrameworkVersion(platform, projectData);
+	private getPluginPlatformIssue(pluginData: IPluginData, platform: string, projectData: IProjectData): IPluginCheckIssue {
 		let pluginPlatformsData = pluginData.platformsData;
 		if (pluginPlatformsData) {
 			let pluginVersion = (<any>pluginPlatformsData)[platform];
 			if (!pluginVersion) {
-				this.$logger.warn(`${pluginData.name} is not supported for ${platform}.`);
-				isValid = false;
-			} else if (semver.gt(pluginVersion, installedFrameworkVersion)) {
-				this.$logger.warn(`${pluginData.name} ${pluginVersion} for ${platform} is not compatible with the currently installed framework version ${installedFrameworkVersion}.`);
-				isValid = false;
+				return {
+					type: constants.PluginCheckIssueTypes.UNSUPPORTED_PLATFORM,
+					platform,
+					plugins: [pluginData.name],
+					message: `${pluginData.name} is not supported for ${platform}.`
+				};
+			}
+
+			let installedFrameworkVersion = this.getInstalledFrameworkVersion(platform, projectData);
+			if (installedFrameworkVersion && semver.gt(pluginVersion, installedFrameworkVersion)) {
+				return {
+					type: constants.PluginCheckIssueTypes.INCOMPATIBLE_RUNTIME,
+					platform,
+					plugins: [pluginData.name],
+					message: `${pluginData.name} ${pluginVersion} for ${platform} is not compatible with the currently installed framework version ${installedFrameworkVersion}.`
+				};
 			}
 		}
 
-		return isValid;
+		return null;
 	}
 }
 
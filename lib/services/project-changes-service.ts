@@ -1,16 +1,20 @@
 import * as path from "path";
-import { NODE_MODULES_FOLDER_NAME } from "../constants";
+import * as crypto from "crypto";
+import { NODE_MODULES_FOLDER_NAME, APP_FOLDER_NAME, APP_FILES_INFO_FILE_NAME, PREPARED_CONFIGURATIONS_DIR_NAME, TNS_MODULES_INFO_FILE_NAME } from "../constants";
+import { NodeModulesDependenciesBuilder } from "../tools/node-modules/node-modules-dependencies-builder";
 
 const prepareInfoFileName = ".nsprepareinfo";
 
 class ProjectChangesInfo implements IProjectChangesInfo {
 
-	public appFilesChanged: boolean;
-	public appResourcesChanged: boolean;
-	public modulesChanged: boolean;
-	public configChanged: boolean;
-	public packageChanged: boolean;
-	public nativeChanged: boolean;
+	public appFilesChanged = false;
+	public appResourcesChanged = false;
+	public modulesChanged = false;
+	public configChanged = false;
+	public packageChanged = false;
+	public nativeChanged = false;
+	public reasons: IProjectChangeReason[] = [];
+	public prepareInfo: IPrepareInfo;
 
 	public get hasChanges(): boolean {
 		return this.packageChanged ||
@@ -27,86 +31,132 @@ class ProjectChangesInfo implements IProjectChangesInfo {
 	}
 }
 
-export class ProjectChangesService implements IProjectChangesService {
+/**
+ * The state of a single check for changes. Each check has its own context, so the platforms can be checked and prepared concurrently.
+ */
+class ProjectChangesContext {
+	public changesInfo = new ProjectChangesInfo();
+	public prepareInfo: IPrepareInfo;
+	public newFiles: string[] = [];
+	public changedFiles: IStringDictionary = {};
+	public previousFilesHashes: IStringDictionary = {};
+	public filesHashes: IStringDictionary = {};
+	public outputProjectMtime: number;
+	public outputProjectCTime: number;
+	public preparedOutputTime: number;
+}
 
-	private _changesInfo: IProjectChangesInfo;
-	private _prepareInfo: IPrepareInfo;
-	private _newFiles: number = 0;
-	private _outputProjectMtime: number;
-	private _outputProjectCTime: number;
+export class ProjectChangesService implements IProjectChangesService {
 
 	constructor(
 		private $platformsData: IPlatformsData,
 		private $devicePlatformsConstants: Mobile.IDevicePlatformsConstants,
-		private $fs: IFileSystem) {
-	}
-
-	public get currentChanges(): IProjectChangesInfo {
-		return this._changesInfo;
+		private $fs: IFileSystem,
+		private $projectIgnoreService: IProjectIgnoreService,
+		private $injector: IInjector) {
 	}
 
 	public checkForChanges(platform: string, projectData: IProjectData, projectChangesOptions: IProjectChangesOptions): IProjectChangesInfo {
 		let platformData = this.$platformsData.getPlatformData(platform, projectData);
-		this._changesInfo = new ProjectChangesInfo();
-		if (!this.ensurePrepareInfo(platform, projectData, projectChangesOptions)) {
-			this._newFiles = 0;
-			this._changesInfo.appFilesChanged = this.containsNewerFiles(projectData.appDirectoryPath, projectData.appResourcesDirectoryPath, projectData);
-			this._changesInfo.packageChanged = this.filesChanged([path.join(projectData.projectDir, "package.json")]);
-			this._changesInfo.appResourcesChanged = this.containsNewerFiles(projectData.appResourcesDirectoryPath, null, projectData);
-			/*done because currently all node_modules are traversed, a possible improvement could be traversing only the production dependencies*/
-			this._changesInfo.nativeChanged = this.containsNewerFiles(
-				path.join(projectData.projectDir, NODE_MODULES_FOLDER_NAME),
-				path.join(projectData.projectDir, NODE_MODULES_FOLDER_NAME, "tns-ios-inspector"),
-				projectData,
-				this.fileChangeRequiresBuild);
-			if (this._newFiles > 0) {
-				this._changesInfo.modulesChanged = true;
+		let context = new ProjectChangesContext();
+		let configuration = this.getPrepareConfiguration(platform, projectChangesOptions);
+		let excludedPatterns = this.$projectIgnoreService.getExcludedPatterns(projectData.projectDir, projectChangesOptions.release);
+		if (!this.ensurePrepareInfo(context, platform, projectData, projectChangesOptions)) {
+			context.previousFilesHashes = context.prepareInfo.filesHashes || {};
+			context.preparedOutputTime = context.outputProjectMtime;
+			let previousConfiguration = context.prepareInfo.configuration || this.getPrepareConfiguration(platform, {
+				release: context.prepareInfo.release,
+				bundle: context.prepareInfo.bundle,
+				provision: context.prepareInfo.iOSProvisioningProfileUUID
+			});
+
+			let configurationInfo: IPrepareConfigurationInfo;
+			if (previousConfiguration !== configuration) {
+				configurationInfo = this.switchPreparedConfiguration(context, platform, projectData, previousConfiguration, configuration);
+				this.addChangeReason(context, "configChanged", `Previous prepare was for the ${previousConfiguration} configuration, current one is for ${configuration}.`);
+				context.changesInfo.configChanged = true;
+				if (configurationInfo) {
+					// The prepared app of the configuration is restored, so the app files and tns_modules are compared with its latest prepare.
+					context.previousFilesHashes = configurationInfo.filesHashes || {};
+					context.preparedOutputTime = configurationInfo.timestamp;
+				} else {
+					context.changesInfo.appFilesChanged = true;
+					context.changesInfo.modulesChanged = true;
+					this.addChangeReasons(context, ["appFilesChanged", "modulesChanged"], `Project has not been prepared for the ${configuration} configuration yet.`);
+				}
+			}
+
+			this.withPreparedOutputBaseline(context, configurationInfo, () => {
+				context.changesInfo.appFilesChanged = this.containsNewerFiles(context, projectData.appDirectoryPath, projectData.appResourcesDirectoryPath, projectData) || context.changesInfo.appFilesChanged;
+			});
+			this.explainChangedFiles(context, "appFilesChanged");
+			if (previousConfiguration === configuration || configurationInfo) {
+				let previousExcludedPatterns = (configurationInfo ? configurationInfo.excludedPatterns : context.prepareInfo.excludedPatterns) || [];
+				if (!_.isEqual(previousExcludedPatterns, excludedPatterns)) {
+					context.changesInfo.appFilesChanged = true;
+					this.addChangeReason(context, "appFilesChanged", "The excluded app files have changed.");
+				}
+			}
+			if (configurationInfo) {
+				context.previousFilesHashes = context.prepareInfo.filesHashes || {};
+			}
+			context.changesInfo.packageChanged = this.filesChanged(context, [path.join(projectData.projectDir, "package.json")], projectData);
+			this.explainChangedFiles(context, "packageChanged");
+			context.changesInfo.appResourcesChanged = this.containsNewerFiles(context, projectData.appResourcesDirectoryPath, null, projectData);
+			this.explainChangedFiles(context, "appResourcesChanged");
+			context.changesInfo.nativeChanged = this.containsNewerProductionDependencies(context, projectData);
+			this.explainChangedFiles(context, "nativeChanged");
+			if (context.newFiles.length > 0) {
+				context.changesInfo.modulesChanged = true;
+				_.each(context.newFiles, file => this.addChangeReason(context, "modulesChanged", "Node module file has changed.", file));
 			}
 			let platformResourcesDir = path.join(projectData.appResourcesDirectoryPath, platformData.normalizedPlatformName);
 			if (platform === this.$devicePlatformsConstants.iOS.toLowerCase()) {
-				this._changesInfo.configChanged = this.filesChanged([path.join(platformResourcesDir, platformData.configurationFileName),
+				context.changesInfo.configChanged = this.filesChanged(context, [path.join(platformResourcesDir, platformData.configurationFileName),
 					path.join(platformResourcesDir, "LaunchScreen.storyboard"),
 					path.join(platformResourcesDir, "build.xcconfig")
-				]);
+				], projectData) || context.changesInfo.configChanged;
 			} else {
-				this._changesInfo.configChanged = this.filesChanged([
+				context.changesInfo.configChanged = this.filesChanged(context, [
 					path.join(platformResourcesDir, platformData.configurationFileName),
 					path.join(platformResourcesDir, "app.gradle")
-				]);
+				], projectData) || context.changesInfo.configChanged;
 			}
+			this.explainChangedFiles(context, "configChanged");
 		}
 		if (platform.toLowerCase() === this.$devicePlatformsConstants.iOS.toLowerCase()) {
 			const nextCommandProvisionUUID = projectChangesOptions.provision;
 			// We should consider reading here the provisioning profile UUID from the xcodeproj and xcconfig.
-			const prevProvisionUUID = this._prepareInfo.iOSProvisioningProfileUUID;
+			const prevProvisionUUID = context.prepareInfo.iOSProvisioningProfileUUID;
 			if (nextCommandProvisionUUID !== prevProvisionUUID) {
-				this._changesInfo.nativeChanged = true;
-				this._changesInfo.configChanged = true;
-				this._prepareInfo.iOSProvisioningProfileUUID = nextCommandProvisionUUID;
+				context.changesInfo.nativeChanged = true;
+				context.changesInfo.configChanged = true;
+				this.addChangeReasons(context, ["nativeChanged", "configChanged"], `Provisioning profile UUID has changed from ${prevProvisionUUID} to ${nextCommandProvisionUUID}.`);
+				context.prepareInfo.iOSProvisioningProfileUUID = nextCommandProvisionUUID;
 			}
 		}
-		if (projectChangesOptions.bundle !== this._prepareInfo.bundle || projectChangesOptions.release !== this._prepareInfo.release) {
-			this._changesInfo.appFilesChanged = true;
-			this._changesInfo.appResourcesChanged = true;
-			this._changesInfo.modulesChanged = true;
-			this._changesInfo.configChanged = true;
-			this._prepareInfo.release = projectChangesOptions.release;
-			this._prepareInfo.bundle = projectChangesOptions.bundle;
-		}
-		if (this._changesInfo.packageChanged) {
-			this._changesInfo.modulesChanged = true;
+		context.prepareInfo.release = projectChangesOptions.release;
+		context.prepareInfo.bundle = projectChangesOptions.bundle;
+		context.prepareInfo.configuration = configuration;
+		context.prepareInfo.excludedPatterns = excludedPatterns;
+		if (context.changesInfo.packageChanged) {
+			context.changesInfo.modulesChanged = true;
+			this.addChangeReason(context, "modulesChanged", "Project package.json has changed.");
 		}
-		if (this._changesInfo.modulesChanged || this._changesInfo.appResourcesChanged) {
-			this._changesInfo.configChanged = true;
+		if (context.changesInfo.modulesChanged || context.changesInfo.appResourcesChanged) {
+			context.changesInfo.configChanged = true;
+			this.addChangeReason(context, "configChanged", "Node modules or App_Resources have changed.");
 		}
-		if (this._changesInfo.hasChanges) {
-			this._prepareInfo.changesRequireBuild = this._changesInfo.changesRequireBuild;
-			this._prepareInfo.time = new Date().toString();
-			if (this._prepareInfo.changesRequireBuild) {
-				this._prepareInfo.changesRequireBuildTime = this._prepareInfo.time;
+		context.prepareInfo.filesHashes = context.filesHashes;
+		if (context.changesInfo.hasChanges) {
+			context.prepareInfo.changesRequireBuild = context.changesInfo.changesRequireBuild;
+			context.prepareInfo.time = new Date().toString();
+			if (context.prepareInfo.changesRequireBuild) {
+				context.prepareInfo.changesRequireBuildTime = context.prepareInfo.time;
 			}
 		}
-		return this._changesInfo;
+		context.changesInfo.prepareInfo = context.prepareInfo;
+		return context.changesInfo;
 	}
 
 	public getPrepareInfoFilePath(platform: string, projectData: IProjectData): string {
@@ -128,49 +178,152 @@ export class ProjectChangesService implements IProjectChangesService {
 		return prepareInfo;
 	}
 
-	public savePrepareInfo(platform: string, projectData: IProjectData): void {
+	public savePrepareInfo(platform: string, projectData: IProjectData, changesInfo: IProjectChangesInfo): void {
 		let prepareInfoFilePath = this.getPrepareInfoFilePath(platform, projectData);
-		this.$fs.writeJson(prepareInfoFilePath, this._prepareInfo);
+		let prepareInfo = changesInfo.prepareInfo;
+		prepareInfo.configurations = prepareInfo.configurations || {};
+		prepareInfo.configurations[prepareInfo.configuration] = {
+			time: prepareInfo.time,
+			timestamp: Date.now(),
+			filesHashes: prepareInfo.filesHashes,
+			excludedPatterns: prepareInfo.excludedPatterns
+		};
+		this.$fs.writeJson(prepareInfoFilePath, prepareInfo);
+	}
+
+	public getPrepareConfiguration(platform: string, projectChangesOptions: IProjectChangesOptions): string {
+		let configuration = [projectChangesOptions.release ? "release" : "debug"];
+		if (projectChangesOptions.bundle) {
+			configuration.push("bundle");
+		}
+
+		if (projectChangesOptions.provision && platform.toLowerCase() === this.$devicePlatformsConstants.iOS.toLowerCase()) {
+			configuration.push(projectChangesOptions.provision);
+		}
+
+		configuration.push(...(projectChangesOptions.qualifiers || []));
+
+		return configuration.join("-");
+	}
+
+	/**
+	 * Stages the prepared app of the previous configuration and restores the one of the current configuration, if it has been prepared before.
+	 * @returns {IPrepareConfigurationInfo} The state of the latest prepare for the current configuration, or null when its prepared app is not restored.
+	 */
+	private switchPreparedConfiguration(context: ProjectChangesContext, platform: string, projectData: IProjectData, previousConfiguration: string, configuration: string): IPrepareConfigurationInfo {
+		let platformData = this.$platformsData.getPlatformData(platform, projectData);
+		let appDestinationDirectoryPath = path.join(platformData.appDestinationDirectoryPath, APP_FOLDER_NAME);
+		let appFilesInfoFilePath = path.join(platformData.projectRoot, APP_FILES_INFO_FILE_NAME);
+		let tnsModulesInfoFilePath = path.join(platformData.projectRoot, TNS_MODULES_INFO_FILE_NAME);
+
+		let previousStagingDirectoryPath = path.join(platformData.projectRoot, PREPARED_CONFIGURATIONS_DIR_NAME, previousConfiguration);
+		this.$fs.deleteDirectory(previousStagingDirectoryPath);
+		this.moveIfExists(appDestinationDirectoryPath, path.join(previousStagingDirectoryPath, APP_FOLDER_NAME));
+		this.moveIfExists(appFilesInfoFilePath, path.join(previousStagingDirectoryPath, APP_FILES_INFO_FILE_NAME));
+		this.moveIfExists(tnsModulesInfoFilePath, path.join(previousStagingDirectoryPath, TNS_MODULES_INFO_FILE_NAME));
+
+		let stagingDirectoryPath = path.join(platformData.projectRoot, PREPARED_CONFIGURATIONS_DIR_NAME, configuration);
+		let configurationInfo = context.prepareInfo.configurations && context.prepareInfo.configurations[configuration];
+		let isRestored = !!configurationInfo && this.moveIfExists(path.join(stagingDirectoryPath, APP_FOLDER_NAME), appDestinationDirectoryPath);
+		if (isRestored) {
+			this.moveIfExists(path.join(stagingDirectoryPath, APP_FILES_INFO_FILE_NAME), appFilesInfoFilePath);
+			this.moveIfExists(path.join(stagingDirectoryPath, TNS_MODULES_INFO_FILE_NAME), tnsModulesInfoFilePath);
+		}
+
+		this.$fs.deleteDirectory(stagingDirectoryPath);
+		return isRestored ? configurationInfo : null;
+	}
+
+	private moveIfExists(sourcePath: string, destinationPath: string): boolean {
+		if (!this.$fs.exists(sourcePath)) {
+			return false;
+		}
+
+		this.$fs.ensureDirectoryExists(path.dirname(destinationPath));
+		this.$fs.rename(sourcePath, destinationPath);
+		return true;
+	}
+
+	private withPreparedOutputBaseline(context: ProjectChangesContext, configurationInfo: IPrepareConfigurationInfo, action: () => void): void {
+		if (!configurationInfo) {
+			action();
+			return;
+		}
+
+		let outputProjectMtime = context.outputProjectMtime;
+		let outputProjectCTime = context.outputProjectCTime;
+		context.outputProjectMtime = context.outputProjectCTime = configurationInfo.timestamp;
+		try {
+			action();
+		} finally {
+			context.outputProjectMtime = outputProjectMtime;
+			context.outputProjectCTime = outputProjectCTime;
+		}
 	}
 
-	private ensurePrepareInfo(platform: string, projectData: IProjectData, projectChangesOptions: IProjectChangesOptions): boolean {
-		this._prepareInfo = this.getPrepareInfo(platform, projectData);
-		if (this._prepareInfo) {
+	private ensurePrepareInfo(context: ProjectChangesContext, platform: string, projectData: IProjectData, projectChangesOptions: IProjectChangesOptions): boolean {
+		context.prepareInfo = this.getPrepareInfo(platform, projectData);
+		if (context.prepareInfo) {
 			let platformData = this.$platformsData.getPlatformData(platform, projectData);
 			let prepareInfoFile = path.join(platformData.projectRoot, prepareInfoFileName);
-			this._outputProjectMtime = this.$fs.getFsStats(prepareInfoFile).mtime.getTime();
-			this._outputProjectCTime = this.$fs.getFsStats(prepareInfoFile).ctime.getTime();
+			context.outputProjectMtime = this.$fs.getFsStats(prepareInfoFile).mtime.getTime();
+			context.outputProjectCTime = this.$fs.getFsStats(prepareInfoFile).ctime.getTime();
 			return false;
 		}
-		this._prepareInfo = {
+		context.prepareInfo = {
 			time: "",
 			bundle: projectChangesOptions.bundle,
 			release: projectChangesOptions.release,
 			changesRequireBuild: true,
 			changesRequireBuildTime: null
 		};
-		this._outputProjectMtime = 0;
-		this._outputProjectCTime = 0;
-		this._changesInfo.appFilesChanged = true;
-		this._changesInfo.appResourcesChanged = true;
-		this._changesInfo.modulesChanged = true;
-		this._changesInfo.configChanged = true;
+		context.outputProjectMtime = 0;
+		context.outputProjectCTime = 0;
+		context.changesInfo.appFilesChanged = true;
+		context.changesInfo.appResourcesChanged = true;
+		context.changesInfo.modulesChanged = true;
+		context.changesInfo.configChanged = true;
+		this.addChangeReasons(context, ["appFilesChanged", "appResourcesChanged", "modulesChanged", "configChanged"], `There is no ${prepareInfoFileName} file from a previous prepare.`);
 		return true;
 	}
 
-	private filesChanged(files: string[]): boolean {
+	private addChangeReason(context: ProjectChangesContext, changeType: string, description: string, file?: string): void {
+		context.changesInfo.reasons.push({ changeType, description, file });
+	}
+
+	private addChangeReasons(context: ProjectChangesContext, changeTypes: string[], description: string): void {
+		_.each(changeTypes, changeType => this.addChangeReason(context, changeType, description));
+	}
+
+	private explainChangedFiles(context: ProjectChangesContext, changeType: string): void {
+		_.each(context.changedFiles, (description: string, file: string) => this.addChangeReason(context, changeType, description, file));
+		context.changedFiles = {};
+	}
+
+	private filesChanged(context: ProjectChangesContext, files: string[], projectData: IProjectData): boolean {
+		let changed = false;
 		for (let file of files) {
-			if (this.$fs.exists(file)) {
-				let fileStats = this.$fs.getFsStats(file);
-				if (fileStats.mtime.getTime() >= this._outputProjectMtime || fileStats.ctime.getTime() >= this._outputProjectCTime) {
-					return true;
-				}
+			if (this.$fs.exists(file) && this.isFileModified(context, file, projectData)) {
+				this.markFileAsChanged(context, file, projectData);
+				changed = true;
 			}
 		}
-		return false;
+
+		return changed || this.containsRemovedFiles(context, files, projectData);
 	}
 
-	private containsNewerFiles(dir: string, skipDir: string, projectData: IProjectData, processFunc?: (filePath: string, projectData: IProjectData) => boolean): boolean {
+	private containsNewerFiles(context: ProjectChangesContext, dir: string, skipDir: string, projectData: IProjectData): boolean {
+		let changed = this.containsNewerFilesCore(context, dir, skipDir, projectData);
+		// Removed files do not leave anything behind to stat, so they are detected through the hashes recorded by the previous prepare.
+		let relativeDir = path.relative(projectData.projectDir, dir);
+		let relativeSkipDir = skipDir && path.relative(projectData.projectDir, skipDir);
+		let previouslyTrackedFiles = _.keys(context.previousFilesHashes)
+			.filter(file => _.startsWith(file, relativeDir + path.sep) && !(relativeSkipDir && _.startsWith(file, relativeSkipDir + path.sep)));
+		return this.containsRemovedFiles(context, previouslyTrackedFiles.map(file => path.join(projectData.projectDir, file)), projectData) || changed;
+	}
+
+	private containsNewerFilesCore(context: ProjectChangesContext, dir: string, skipDir: string, projectData: IProjectData): boolean {
+		let changed = false;
 		let files = this.$fs.readDirectory(dir);
 		for (let file of files) {
 			let filePath = path.join(dir, file);
@@ -179,56 +332,142 @@ export class ProjectChangesService implements IProjectChangesService {
 			}
 
 			let fileStats = this.$fs.getFsStats(filePath);
+			if (fileStats.isDirectory()) {
+				// Directories have no content of their own. Their files are checked below and removals are detected by the recorded hashes.
+				if (this.containsNewerFilesCore(context, filePath, skipDir, projectData)) {
+					changed = true;
+				}
 
-			let changed = fileStats.mtime.getTime() >= this._outputProjectMtime || fileStats.ctime.getTime() >= this._outputProjectCTime;
-			if (!changed) {
-				let lFileStats = this.$fs.getLsStats(filePath);
-				changed = lFileStats.mtime.getTime() >= this._outputProjectMtime || lFileStats.ctime.getTime() >= this._outputProjectCTime;
+				continue;
 			}
 
-			if (changed) {
-				if (processFunc) {
-					this._newFiles++;
-					let filePathRelative = path.relative(projectData.projectDir, filePath);
-					if (processFunc.call(this, filePathRelative, projectData)) {
-						return true;
-					}
-				} else {
-					return true;
-				}
+			if (this.isFileModified(context, filePath, projectData)) {
+				this.markFileAsChanged(context, filePath, projectData);
+				changed = true;
+			}
+		}
+
+		return changed;
+	}
+
+	/**
+	 * Checks the production dependencies of the project for changes. Any moved file of theirs means the tns_modules have to be updated,
+	 * while only changes in their package.json files and in the platforms directories of plugins require native build.
+	 */
+	private containsNewerProductionDependencies(context: ProjectChangesContext, projectData: IProjectData): boolean {
+		let dependenciesBuilder = this.$injector.resolve(NodeModulesDependenciesBuilder, {});
+		let productionDependencies = dependenciesBuilder.getProductionDependencies(projectData.projectDir);
+		let changed = false;
+		for (let dependency of productionDependencies) {
+			if (dependency.name !== "tns-ios-inspector" && this.containsNewerDependencyFiles(context, dependency.directory, dependency, projectData)) {
+				changed = true;
 			}
+		}
+
+		// The files of plugins linked from directories outside of the project are tracked by their real paths.
+		let externalDependencyDirectories = _(productionDependencies)
+			.map(dependency => path.relative(projectData.projectDir, dependency.directory))
+			.filter(relativeDirectory => _.startsWith(relativeDirectory, ".."))
+			.value();
+		let previouslyTrackedFiles = _.keys(context.previousFilesHashes)
+			.filter(file => _.startsWith(file, NODE_MODULES_FOLDER_NAME + path.sep) || _.some(externalDependencyDirectories, directory => _.startsWith(file, directory + path.sep)));
+		return this.containsRemovedFiles(context, previouslyTrackedFiles.map(file => path.join(projectData.projectDir, file)), projectData) || changed;
+	}
 
+	private containsNewerDependencyFiles(context: ProjectChangesContext, dir: string, dependency: IResolvedDependencyData, projectData: IProjectData): boolean {
+		let changed = false;
+		let files = this.$fs.readDirectory(dir);
+		for (let file of files) {
+			let filePath = path.join(dir, file);
+			let fileStats = this.$fs.getFsStats(filePath);
 			if (fileStats.isDirectory()) {
-				if (this.containsNewerFiles(filePath, skipDir, projectData, processFunc)) {
-					return true;
+				// Nested node_modules contain dependencies of their own, which are checked separately if they are production ones.
+				if (file !== NODE_MODULES_FOLDER_NAME && this.containsNewerDependencyFiles(context, filePath, dependency, projectData)) {
+					changed = true;
+				}
+
+				continue;
+			}
+
+			let filePathRelative = path.relative(projectData.projectDir, filePath);
+			let nativeChangeReason = this.getNativeChangeReason(path.relative(dependency.directory, filePath), dependency);
+			if (nativeChangeReason) {
+				// Only files which require native build are hashed, the rest of the dependency is checked by its timestamps only.
+				if (this.isFileModified(context, filePath, projectData)) {
+					context.newFiles.push(filePathRelative);
+					context.changedFiles[filePathRelative] = nativeChangeReason;
+					changed = true;
+				} else if (context.preparedOutputTime !== context.outputProjectMtime && this.areFileStatsModified(context, filePath, context.preparedOutputTime)) {
+					// The file is already handled by the native project, but the restored tns_modules are older than it.
+					context.newFiles.push(filePathRelative);
 				}
+			} else if (this.areFileStatsModified(context, filePath, context.preparedOutputTime)) {
+				context.newFiles.push(filePathRelative);
 			}
 		}
-		return false;
+
+		return changed;
 	}
 
-	private fileChangeRequiresBuild(file: string, projectData: IProjectData) {
-		if (path.basename(file) === "package.json") {
-			return true;
+	private containsRemovedFiles(context: ProjectChangesContext, files: string[], projectData: IProjectData): boolean {
+		let removed = false;
+		for (let file of files) {
+			let relativePath = path.relative(projectData.projectDir, file);
+			if (context.previousFilesHashes[relativePath] && !this.$fs.exists(file)) {
+				context.changedFiles[relativePath] = "File has been removed.";
+				removed = true;
+			}
 		}
-		let projectDir = projectData.projectDir;
-		if (_.startsWith(path.join(projectDir, file), projectData.appResourcesDirectoryPath)) {
-			return true;
+
+		return removed;
+	}
+
+	private markFileAsChanged(context: ProjectChangesContext, filePath: string, projectData: IProjectData): void {
+		let relativePath = path.relative(projectData.projectDir, filePath);
+		context.changedFiles[relativePath] = context.previousFilesHashes[relativePath] ? "File content has changed." : "File has been added.";
+	}
+
+	private isFileModified(context: ProjectChangesContext, filePath: string, projectData: IProjectData): boolean {
+		let relativePath = path.relative(projectData.projectDir, filePath);
+		let previousHash = context.previousFilesHashes[relativePath];
+		if (previousHash && !this.areFileStatsModified(context, filePath)) {
+			context.filesHashes[relativePath] = previousHash;
+			return false;
 		}
-		if (_.startsWith(file, NODE_MODULES_FOLDER_NAME)) {
-			let filePath = file;
-			while (filePath !== NODE_MODULES_FOLDER_NAME) {
-				filePath = path.dirname(filePath);
-				let fullFilePath = path.join(projectDir, path.join(filePath, "package.json"));
-				if (this.$fs.exists(fullFilePath)) {
-					let json = this.$fs.readJson(fullFilePath);
-					if (json["nativescript"] && _.startsWith(file, path.join(filePath, "platforms"))) {
-						return true;
-					}
-				}
-			}
+
+		// The timestamps of the file have moved (git checkout, touch, restored cache) or it has never been hashed, so compare its contents.
+		let currentHash = this.getFileHash(filePath);
+		context.filesHashes[relativePath] = currentHash;
+		return currentHash !== previousHash && (!!previousHash || this.areFileStatsModified(context, filePath));
+	}
+
+	private areFileStatsModified(context: ProjectChangesContext, filePath: string, outputTime?: number): boolean {
+		let outputMtime = outputTime || context.outputProjectMtime;
+		let outputCTime = outputTime || context.outputProjectCTime;
+		let fileStats = this.$fs.getFsStats(filePath);
+		let changed = fileStats.mtime.getTime() >= outputMtime || fileStats.ctime.getTime() >= outputCTime;
+		if (!changed) {
+			let lFileStats = this.$fs.getLsStats(filePath);
+			changed = lFileStats.mtime.getTime() >= outputMtime || lFileStats.ctime.getTime() >= outputCTime;
 		}
-		return false;
+
+		return changed;
+	}
+
+	private getFileHash(filePath: string): string {
+		return crypto.createHash("sha1").update(this.$fs.readFile(filePath)).digest("hex");
+	}
+
+	private getNativeChangeReason(fileRelativeToDependency: string, dependency: IResolvedDependencyData): string {
+		if (fileRelativeToDependency === "package.json") {
+			return `The package.json of ${dependency.name} has changed.`;
+		}
+
+		if (dependency.nativescript && _.startsWith(fileRelativeToDependency, "platforms" + path.sep)) {
+			return `File in the platforms directory of plugin ${dependency.name} has changed.`;
+		}
+
+		return null;
 	}
 }
 $injector.register("projectChangesService", ProjectChangesService);
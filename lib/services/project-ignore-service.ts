@@ -0,0 +1,93 @@
+import * as path from "path";
+import * as minimatch from "minimatch";
+import * as constants from "../constants";
+import { toGlobs } from "../tools/glob-patterns";
+
+export class ProjectIgnoreService implements IProjectIgnoreService {
+	private static IGNORE_FILE_NAME = ".nsignore";
+	private static EXCLUDE_KEY = "exclude";
+	private static ALL_CONFIGURATIONS_SECTION = "all";
+	private static DEBUG_SECTION = "debug";
+	private static RELEASE_SECTION = "release";
+
+	// The tests and the source files are not shipped in release builds.
+	private static RELEASE_EXCLUDED_PATTERNS = ["/tests"].concat(constants.LIVESYNC_EXCLUDED_FILE_PATTERNS);
+
+	private excludedPatternsCache: IDictionary<{ signature: string, patterns: string[] }> = {};
+
+	constructor(private $fs: IFileSystem,
+		private $projectDataService: IProjectDataService) {
+	}
+
+	public getExcludedPatterns(projectDir: string, release: boolean): string[] {
+		// The patterns are checked for each synced file, so they are read again only when their sources have changed.
+		let cacheKey = `${projectDir}:${release}`;
+		let signature = _.map([path.join(projectDir, ProjectIgnoreService.IGNORE_FILE_NAME), path.join(projectDir, constants.PACKAGE_JSON_FILE_NAME)],
+			filePath => this.$fs.exists(filePath) ? this.$fs.getFsStats(filePath).mtime.getTime() : "").join(":");
+		let cachedPatterns = this.excludedPatternsCache[cacheKey];
+		if (!cachedPatterns || cachedPatterns.signature !== signature) {
+			cachedPatterns = this.excludedPatternsCache[cacheKey] = { signature, patterns: this.readExcludedPatterns(projectDir, release) };
+		}
+
+		return cachedPatterns.patterns;
+	}
+
+	public isExcluded(relativeFilePath: string, projectDir: string, release: boolean): boolean {
+		let filePath = relativeFilePath.replace(/\\/g, "/");
+		if (!filePath || _.startsWith(filePath, "../")) {
+			return false;
+		}
+
+		return _.some(this.getExcludedPatterns(projectDir, release), pattern => minimatch(filePath, pattern, { nocase: true, dot: true }));
+	}
+
+	private readExcludedPatterns(projectDir: string, release: boolean): string[] {
+		let configurationSection = release ? ProjectIgnoreService.RELEASE_SECTION : ProjectIgnoreService.DEBUG_SECTION;
+		let patterns = release ? ProjectIgnoreService.RELEASE_EXCLUDED_PATTERNS : [];
+
+		let excludedSections = this.readIgnoreFile(projectDir);
+		let nativescriptExclude = this.$projectDataService.getNSValue(projectDir, ProjectIgnoreService.EXCLUDE_KEY);
+		if (_.isArray(nativescriptExclude)) {
+			excludedSections[ProjectIgnoreService.ALL_CONFIGURATIONS_SECTION] = (excludedSections[ProjectIgnoreService.ALL_CONFIGURATIONS_SECTION] || []).concat(nativescriptExclude);
+		} else if (_.isObject(nativescriptExclude)) {
+			_.each(nativescriptExclude, (sectionPatterns: string[], section: string) => {
+				excludedSections[section] = (excludedSections[section] || []).concat(sectionPatterns);
+			});
+		}
+
+		patterns = patterns.concat(excludedSections[ProjectIgnoreService.ALL_CONFIGURATIONS_SECTION] || [], excludedSections[configurationSection] || []);
+		return _.uniq(_.flatten(_.map(patterns, pattern => toGlobs(pattern))));
+	}
+
+	/**
+	 * Reads the patterns from the ignore file of the project, grouped by their section.
+	 * The patterns before the first [debug] or [release] section apply to all configurations.
+	 */
+	private readIgnoreFile(projectDir: string): IDictionary<string[]> {
+		let sections: IDictionary<string[]> = {};
+		let ignoreFilePath = path.join(projectDir, ProjectIgnoreService.IGNORE_FILE_NAME);
+		if (!this.$fs.exists(ignoreFilePath)) {
+			return sections;
+		}
+
+		let currentSection = ProjectIgnoreService.ALL_CONFIGURATIONS_SECTION;
+		_.each(this.$fs.readText(ignoreFilePath).split(/\r?\n/), line => {
+			line = line.trim();
+			if (!line || _.startsWith(line, "#")) {
+				return;
+			}
+
+			let sectionMatch = line.match(/^\[(.+)\]$/);
+			if (sectionMatch) {
+				currentSection = sectionMatch[1].trim().toLowerCase();
+				return;
+			}
+
+			sections[currentSection] = (sections[currentSection] || []).concat(line);
+		});
+
+		return sections;
+	}
+}
+
+$injector.register("projectIgnoreService", ProjectIgnoreService);
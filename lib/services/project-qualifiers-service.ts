@@ -0,0 +1,61 @@
+import * as helpers from "../common/helpers";
+
+export class ProjectQualifiersService implements IProjectQualifiersService {
+	private static QUALIFIERS_KEY = "qualifiers";
+	// The debug and release qualifiers are selected by the build configuration, so they are not requested with --qualifiers.
+	private static CONFIGURATION_QUALIFIERS = ["debug", "release"];
+
+	constructor(private $errors: IErrors,
+		private $options: IOptions,
+		private $projectDataService: IProjectDataService) {
+	}
+
+	public getQualifierGroups(projectDir: string): IDictionary<string[]> {
+		let qualifierGroups: IDictionary<string[]> = {};
+		let qualifiers = projectDir && this.$projectDataService.getNSValue(projectDir, ProjectQualifiersService.QUALIFIERS_KEY);
+		_.each(qualifiers, (values: string[], group: string) => {
+			if (_.isArray(values) && values.length) {
+				qualifierGroups[group] = _.map(values, value => value.toLowerCase());
+			}
+		});
+
+		return qualifierGroups;
+	}
+
+	public getSelectedQualifiers(projectDir: string): string[] {
+		let qualifierGroups = this.getQualifierGroups(projectDir);
+		let requestedQualifiers = _(this.$options.qualifiers ? this.$options.qualifiers.split(",") : [])
+			.map(qualifier => qualifier.trim().toLowerCase())
+			.compact()
+			.value();
+
+		let requestedConfigurationQualifiers = _.intersection(requestedQualifiers, ProjectQualifiersService.CONFIGURATION_QUALIFIERS);
+		if (requestedConfigurationQualifiers.length) {
+			this.$errors.failWithoutHelp(`The ${helpers.formatListOfNames(requestedConfigurationQualifiers)} qualifiers cannot be requested. The debug or the release qualifier is selected with the --release option.`);
+		}
+
+		let allQualifiers = _.flatten(_.values<string[]>(qualifierGroups));
+		let unknownQualifiers = _.difference(requestedQualifiers, allQualifiers);
+		if (unknownQualifiers.length) {
+			this.$errors.failWithoutHelp(`Unknown qualifiers ${helpers.formatListOfNames(unknownQualifiers)}. The qualifiers defined in package.json are ${helpers.formatListOfNames(allQualifiers)}.`);
+		}
+
+		// The first value of each group is selected unless another value of the group is requested.
+		// The qualifier of the build configuration is preferred, while the one of the other configuration is never selected.
+		let configuration = this.$options.release ? "release" : "debug";
+		return _.compact(_.map(qualifierGroups, (values: string[], group: string) => {
+			let requestedValues = _.intersection(requestedQualifiers, values);
+			if (requestedValues.length > 1) {
+				this.$errors.failWithoutHelp(`Only one of the ${group} qualifiers can be selected, but ${helpers.formatListOfNames(requestedValues)} are requested.`);
+			}
+
+			if (requestedValues.length) {
+				return requestedValues[0];
+			}
+
+			return _.includes(values, configuration) ? configuration : _.find(values, value => !_.includes(ProjectQualifiersService.CONFIGURATION_QUALIFIERS, value));
+		}));
+	}
+}
+
+$injector.register("projectQualifiersService", ProjectQualifiersService);
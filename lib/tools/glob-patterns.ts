@@ -0,0 +1,17 @@
+/**
+ * Converts a pattern of an ignore file (.nsignore, .npmignore) to globs relative to the directory of the file.
+ * Patterns without a slash match files and directories at any depth, all other patterns are relative to the directory.
+ * All files of a matched directory are matched as well.
+ * @param {string} pattern The pattern of the ignore file without the leading "!" of negated patterns.
+ * @returns {string[]} The globs matching the pattern.
+ */
+export function toGlobs(pattern: string): string[] {
+	pattern = pattern.replace(/\\/g, "/").replace(/\/+$/, "");
+	if (_.startsWith(pattern, "/")) {
+		pattern = pattern.substr(1);
+	} else if (pattern.indexOf("/") === -1) {
+		pattern = `**/${pattern}`;
+	}
+
+	return [pattern, `${pattern}/**`];
+}
@@ -1,97 +1,278 @@
 import * as path from "path";
 import * as fs from "fs";
+import * as semver from "semver";
+import { NODE_MODULES_FOLDER_NAME, NATIVESCRIPT_KEY_NAME, PACKAGE_JSON_FILE_NAME, DependencyWarningTypes } from "../../constants";
+
+let glob = require("glob");
 
 export class NodeModulesDependenciesBuilder implements INodeModulesDependenciesBuilder {
+	private static WORKSPACE_ROOT_KEY = "workspaceRoot";
+	private static PNPM_WORKSPACE_FILE_NAME = "pnpm-workspace.yaml";
+	private static LERNA_FILE_NAME = "lerna.json";
+	private static FILE_PROTOCOL = "file:";
+	private static WORKSPACE_PROTOCOL = "workspace:";
+
 	private projectPath: string;
-	private rootNodeModulesPath: string;
-	private resolvedDependencies: any[];
-	private seen: any;
+	private requestedProjectPath: string;
+	private workspaceRoot: string;
+	private workspacePackages: IStringDictionary;
+	private resolvedDependencies: IResolvedDependencyData[];
+	private unmetPeerDependencies: IUnmetPeerDependency[];
+	private warnings: IDependencyWarning[];
+	private traversedDependencies: IResolvedDependencyData[];
+	// The traversed modules by their real paths. The modules which are not included because of a version conflict have no dependency data.
+	private seen: IDictionary<IResolvedDependencyData>;
 
-	public constructor(private $fs: IFileSystem) {
+	public constructor(private $fs: IFileSystem,
+		private $logger: ILogger) {
 		this.seen = {};
 		this.resolvedDependencies = [];
+		this.unmetPeerDependencies = [];
+		this.warnings = [];
+		this.traversedDependencies = [];
 	}
 
-	public getProductionDependencies(projectPath: string): any[] {
-		this.projectPath = projectPath;
-		this.rootNodeModulesPath = path.join(this.projectPath, "node_modules");
+	public getProductionDependencies(projectPath: string): IResolvedDependencyData[] {
+		this.requestedProjectPath = projectPath;
+		this.projectPath = this.getRealPath(projectPath);
 
-		let projectPackageJsonpath = path.join(this.projectPath, "package.json");
+		let projectPackageJsonpath = path.join(this.projectPath, PACKAGE_JSON_FILE_NAME);
 		let packageJsonContent = this.$fs.readJson(projectPackageJsonpath);
+		this.workspaceRoot = this.getWorkspaceRoot(packageJsonContent);
 
-		_.keys(packageJsonContent.dependencies).forEach(dependencyName => {
-			let depth = 0;
-			let directory = path.join(this.rootNodeModulesPath, dependencyName);
-
-			// find and traverse child with name `key`, parent's directory -> dep.directory
-			this.traverseDependency(dependencyName, directory, depth);
+		// The optional dependencies are installed by npm along with the dependencies, unless their installation fails.
+		_.each(_.extend({}, packageJsonContent.optionalDependencies, packageJsonContent.dependencies), (version: string, dependencyName: string) => {
+			this.traverseDependency(dependencyName, version, this.projectPath, null);
 		});
 
 		return this.resolvedDependencies;
 	}
 
-	private traverseDependency(name: string, currentModulePath: string, depth: number): void {
-		// Check if child has been extracted in the parent's node modules, AND THEN in `node_modules`
-		// Slower, but prevents copying wrong versions if multiple of the same module are installed
-		// Will also prevent copying project's devDependency's version if current module depends on another version
-		let modulePath = path.join(currentModulePath, "node_modules", name); // node_modules/parent/node_modules/<package>
-		let alternativeModulePath = path.join(this.rootNodeModulesPath, name);
+	public getUnmetPeerDependencies(): IUnmetPeerDependency[] {
+		return this.unmetPeerDependencies;
+	}
 
-		this.findModule(modulePath, alternativeModulePath, name, depth);
+	public getWarnings(): IDependencyWarning[] {
+		return this.warnings;
 	}
 
-	private findModule(modulePath: string, alternativeModulePath: string, name: string, depth: number) {
-		let exists = this.moduleExists(modulePath);
+	/**
+	 * Gets the directory up to which the dependencies are looked for. It is either set with the workspaceRoot property of the nativescript key,
+	 * or it is the nearest directory which declares yarn or npm workspaces, pnpm or lerna packages. Outside of a workspace this is the project directory.
+	 */
+	private getWorkspaceRoot(packageJsonContent: any): string {
+		let configuredWorkspaceRoot = packageJsonContent[NATIVESCRIPT_KEY_NAME] && packageJsonContent[NATIVESCRIPT_KEY_NAME][NodeModulesDependenciesBuilder.WORKSPACE_ROOT_KEY];
+		if (configuredWorkspaceRoot) {
+			return this.getRealPath(path.resolve(this.projectPath, configuredWorkspaceRoot));
+		}
 
-		if (exists) {
-			if (this.seen[modulePath]) {
-				return;
-			}
+		return _.find(this.getParentDirectories(this.projectPath, null), directory => this.isWorkspaceRoot(directory)) || this.projectPath;
+	}
 
-			let dependency = this.addDependency(name, modulePath, depth + 1);
-			this.readModuleDependencies(modulePath, depth + 1, dependency);
-		} else {
-			modulePath = alternativeModulePath; // /node_modules/<package>
-			exists = this.moduleExists(modulePath);
+	private isWorkspaceRoot(directory: string): boolean {
+		if (this.$fs.exists(path.join(directory, NodeModulesDependenciesBuilder.PNPM_WORKSPACE_FILE_NAME)) || this.$fs.exists(path.join(directory, NodeModulesDependenciesBuilder.LERNA_FILE_NAME))) {
+			return true;
+		}
 
-			if (!exists) {
-				return;
+		let packageJsonPath = path.join(directory, PACKAGE_JSON_FILE_NAME);
+		return this.$fs.exists(packageJsonPath) && !!this.$fs.readJson(packageJsonPath).workspaces;
+	}
+
+	/**
+	 * Finds a dependency the way Node.js does - in the node_modules directories of the module which requires it and of all its parent directories
+	 * up to the workspace root. Symlinks (npm link, pnpm store) are followed, so the lookup continues from the real location of the module.
+	 */
+	private traverseDependency(name: string, version: string, currentModulePath: string, parentDependency: IResolvedDependencyData, isPeerDependency?: boolean): void {
+		let modulePath = this.findModule(name, currentModulePath) || this.findLocalPackage(name, version, currentModulePath);
+		if (!modulePath) {
+			this.$logger.trace(`Unable to find dependency ${name} of ${currentModulePath}.`);
+			return;
+		}
+
+		// The dependents are kept, so it is possible to tell why a module is included in the app.
+		let requiredBy = parentDependency ? parentDependency.directory : this.requestedProjectPath;
+		if (_.has(this.seen, modulePath)) {
+			let seenDependency = this.seen[modulePath];
+			if (seenDependency && !_.includes(seenDependency.requiredBy, requiredBy)) {
+				seenDependency.requiredBy.push(requiredBy);
+			}
+
+			// A module which is still being traversed is required by one of its own dependencies. It is included only once, but the cycle is reported.
+			// Peer dependencies on a consumer are expected, so they are not reported.
+			let cycleStartIndex = this.traversedDependencies.indexOf(seenDependency);
+			if (cycleStartIndex !== -1 && !isPeerDependency) {
+				let cycle = _.map(this.traversedDependencies.slice(cycleStartIndex), dependency => dependency.name).concat(name);
+				this.warnings.push({
+					type: DependencyWarningTypes.CYCLE,
+					message: `Cyclic production dependencies: ${cycle.join(" → ")}.`,
+					packages: cycle
+				});
 			}
 
-			if (this.seen[modulePath]) {
+			return;
+		}
+
+		this.seen[modulePath] = null;
+
+		// A module inside the directory of its parent is copied together with the parent, all others are copied as top-level modules of tns_modules.
+		let isNestedInParent = !!parentDependency && this.isInsideDirectory(modulePath, parentDependency.directory);
+		let depth = isNestedInParent ? parentDependency.depth + 1 : 0;
+		if (depth === 0) {
+			let conflictingDependency = _.find(this.resolvedDependencies, d => d.depth === 0 && d.name === name);
+			if (conflictingDependency) {
+				this.warnings.push({
+					type: DependencyWarningTypes.VERSION_CONFLICT,
+					message: `Both ${conflictingDependency.directory} and ${modulePath} are required as ${name}. Only ${conflictingDependency.directory} will be included in the app.`,
+					packages: [name]
+				});
 				return;
 			}
+		}
+
+		let dependency = this.addDependency(name, modulePath, depth, requiredBy);
+		this.seen[modulePath] = dependency;
+		this.traversedDependencies.push(dependency);
+		this.readModuleDependencies(modulePath, dependency, parentDependency);
+		this.traversedDependencies.pop();
+	}
 
-			let dependency = this.addDependency(name, modulePath, 0);
-			this.readModuleDependencies(modulePath, 0, dependency);
+	private findModule(name: string, currentModulePath: string): string {
+		let realModulePath = this.getRealPath(currentModulePath);
+		let lookupDirectories = this.getParentDirectories(realModulePath, this.workspaceRoot);
+		if (!this.isInsideDirectory(realModulePath, this.workspaceRoot)) {
+			// Modules linked from outside of the workspace fall back to the dependencies of the project.
+			lookupDirectories = _.uniq([realModulePath].concat(this.getParentDirectories(this.projectPath, this.workspaceRoot)));
 		}
 
-		this.seen[modulePath] = true;
+		let modulePath = _(lookupDirectories)
+			.map(directory => path.join(directory, NODE_MODULES_FOLDER_NAME, name))
+			.find(candidatePath => this.moduleExists(candidatePath));
+
+		return modulePath && this.getRealPath(modulePath);
 	}
 
-	private readModuleDependencies(modulePath: string, depth: number, currentModule: any): void {
-		let packageJsonPath = path.join(modulePath, 'package.json');
-		let packageJsonExists = fs.lstatSync(packageJsonPath).isFile();
+	/**
+	 * Resolves dependencies declared with the file: or workspace: protocols, which are not installed in any node_modules directory.
+	 */
+	private findLocalPackage(name: string, version: string, currentModulePath: string): string {
+		let modulePath: string = null;
+		if (_.startsWith(version, NodeModulesDependenciesBuilder.FILE_PROTOCOL)) {
+			modulePath = path.resolve(currentModulePath, version.substr(NodeModulesDependenciesBuilder.FILE_PROTOCOL.length));
+		} else if (_.startsWith(version, NodeModulesDependenciesBuilder.WORKSPACE_PROTOCOL)) {
+			modulePath = this.getWorkspacePackages()[name];
+		}
+
+		return modulePath && this.moduleExists(modulePath) ? this.getRealPath(modulePath) : null;
+	}
 
-		if (packageJsonExists) {
+	private getWorkspacePackages(): IStringDictionary {
+		if (!this.workspacePackages) {
+			this.workspacePackages = {};
+			let patterns = this.getWorkspacePatterns();
+			let packageDirectories = _.flatten(_.map(patterns, pattern => glob.sync(pattern, { cwd: this.workspaceRoot, ignore: "**/node_modules/**" })));
+			_.each(packageDirectories, (packageDirectory: string) => {
+				let packageJsonPath = path.join(this.workspaceRoot, packageDirectory, PACKAGE_JSON_FILE_NAME);
+				if (this.$fs.exists(packageJsonPath)) {
+					this.workspacePackages[this.$fs.readJson(packageJsonPath).name] = path.join(this.workspaceRoot, packageDirectory);
+				}
+			});
+		}
+
+		return this.workspacePackages;
+	}
+
+	private getWorkspacePatterns(): string[] {
+		let patterns: string[] = [];
+		let packageJsonPath = path.join(this.workspaceRoot, PACKAGE_JSON_FILE_NAME);
+		let workspaces = this.$fs.exists(packageJsonPath) && this.$fs.readJson(packageJsonPath).workspaces;
+		if (workspaces) {
+			patterns = patterns.concat(_.isArray(workspaces) ? workspaces : workspaces.packages || []);
+		}
+
+		// Only the list of packages is needed from the pnpm workspace file, so it is read without a YAML parser.
+		let pnpmWorkspaceFilePath = path.join(this.workspaceRoot, NodeModulesDependenciesBuilder.PNPM_WORKSPACE_FILE_NAME);
+		if (this.$fs.exists(pnpmWorkspaceFilePath)) {
+			let packagesSection = this.$fs.readText(pnpmWorkspaceFilePath).split(/^packages:\s*$/m)[1] || "";
+			_.each(packagesSection.split(/\r?\n/), line => {
+				let match = line.match(/^\s+-\s*['"]?([^'"#]+?)['"]?\s*$/);
+				if (match) {
+					patterns.push(match[1]);
+				} else if (/^\S/.test(line)) {
+					return false;
+				}
+			});
+		}
+
+		let lernaFilePath = path.join(this.workspaceRoot, NodeModulesDependenciesBuilder.LERNA_FILE_NAME);
+		if (this.$fs.exists(lernaFilePath)) {
+			patterns = patterns.concat(this.$fs.readJson(lernaFilePath).packages || []);
+		}
+
+		return _.reject(patterns, pattern => _.startsWith(pattern, "!"));
+	}
+
+	private readModuleDependencies(modulePath: string, currentModule: IResolvedDependencyData, parentDependency: IResolvedDependencyData): void {
+		let packageJsonPath = path.join(modulePath, PACKAGE_JSON_FILE_NAME);
+		if (this.$fs.exists(packageJsonPath)) {
 			let packageJsonContents = this.$fs.readJson(packageJsonPath);
+			currentModule.version = packageJsonContents.version;
 
 			if (!!packageJsonContents.nativescript) {
 				// add `nativescript` property, necessary for resolving plugins
 				currentModule.nativescript = packageJsonContents.nativescript;
 			}
 
-			_.keys(packageJsonContents.dependencies).forEach((dependencyName) => {
-				this.traverseDependency(dependencyName, modulePath, depth);
+			let dependencies = _.extend({}, packageJsonContents.optionalDependencies, packageJsonContents.dependencies);
+			_.each(dependencies, (version: string, dependencyName: string) => {
+				this.traverseDependency(dependencyName, version, modulePath, currentModule);
+			});
+
+			let peerDependencies = _.omit(packageJsonContents.peerDependencies, _.keys(dependencies));
+			_.each(peerDependencies, (range: string, peerDependencyName: string) => {
+				let isOptional = !!(packageJsonContents.peerDependenciesMeta && packageJsonContents.peerDependenciesMeta[peerDependencyName] && packageJsonContents.peerDependenciesMeta[peerDependencyName].optional);
+				this.resolvePeerDependency(peerDependencyName, range, isOptional, currentModule, parentDependency);
 			});
 		}
 	}
 
-	private addDependency(name: string, directory: string, depth: number): any {
-		let dependency: any = {
+	/**
+	 * Peer dependencies are resolved against the tree of the consumer of the module - the module which depends on it or the project.
+	 */
+	private resolvePeerDependency(name: string, range: string, isOptional: boolean, currentModule: IResolvedDependencyData, parentDependency: IResolvedDependencyData): void {
+		let consumerPath = parentDependency ? parentDependency.directory : this.projectPath;
+		let peerDependencyPath = this.findModule(name, consumerPath);
+		let installedVersion: string = null;
+		if (peerDependencyPath) {
+			this.traverseDependency(name, range, consumerPath, parentDependency, true);
+			let peerDependency = this.seen[peerDependencyPath];
+			installedVersion = peerDependency && peerDependency.version;
+		}
+
+		let isMet = peerDependencyPath ? !installedVersion || !semver.validRange(range) || semver.satisfies(installedVersion, range) : isOptional;
+		if (!isMet && currentModule.nativescript) {
+			let unmetPeerDependency = {
+				name: currentModule.name,
+				version: currentModule.version,
+				peerDependencyName: name,
+				range,
+				installedVersion
+			};
+			let installedVersionMessage = installedVersion ? `version ${installedVersion} is installed` : "it is not installed";
+			this.unmetPeerDependencies.push(unmetPeerDependency);
+			this.warnings.push({
+				type: DependencyWarningTypes.UNMET_PEER_DEPENDENCY,
+				message: `${currentModule.name}@${currentModule.version} requires ${name}@${range} as a peer dependency, but ${installedVersionMessage}.`,
+				packages: [currentModule.name, name]
+			});
+		}
+	}
+
+	private addDependency(name: string, directory: string, depth: number, requiredBy: string): IResolvedDependencyData {
+		let dependency = <IResolvedDependencyData>{
 			name,
 			directory,
-			depth
+			depth,
+			requiredBy: [requiredBy]
 		};
 
 		this.resolvedDependencies.push(dependency);
@@ -99,6 +280,32 @@ export class NodeModulesDependenciesBuilder implements INodeModulesDependenciesB
 		return dependency;
 	}
 
+	/**
+	 * Gets a directory and all its parents up to the stop directory, including it. Without a stop directory the file system root is reached.
+	 */
+	private getParentDirectories(directory: string, stopDirectory: string): string[] {
+		let directories = [directory];
+		while (directory !== stopDirectory && path.dirname(directory) !== directory) {
+			directory = path.dirname(directory);
+			directories.push(directory);
+		}
+
+		return directories;
+	}
+
+	private isInsideDirectory(filePath: string, directory: string): boolean {
+		let relativePath = path.relative(directory, filePath);
+		return !_.startsWith(relativePath, "..") && !path.isAbsolute(relativePath);
+	}
+
+	private getRealPath(modulePath: string): string {
+		try {
+			return fs.realpathSync(modulePath);
+		} catch (e) {
+			return path.resolve(modulePath);
+		}
+	}
+
 	private moduleExists(modulePath: string): boolean {
 		try {
 			let exists = fs.lstatSync(modulePath);
@@ -2,81 +2,329 @@ import * as path from "path";
 import * as shelljs from "shelljs";
 import * as constants from "../../constants";
 import * as minimatch from "minimatch";
+import * as crypto from "crypto";
+import * as fs from "fs";
+import { toGlobs } from "../glob-patterns";
 
 export interface ILocalDependencyData extends IDependencyData {
 	directory: string;
 }
 
+/**
+ * Describes a package copied to the tns_modules directory of the native project.
+ */
+interface ITnsModulesManifestEntry {
+	version: string;
+	directory: string;
+	release: boolean;
+	signature: string;
+	copyRules: ITnsModulesCopyRules;
+}
+
+/**
+ * Describes the native code of a dependency at the time it was prepared for a platform.
+ */
+interface IPreparedDependencyInfo {
+	version: string;
+	directory: string;
+	isPlugin: boolean;
+	hash: string;
+}
+
+/**
+ * Describes the files of the packages which are not copied to tns_modules. The patterns are relative to the directory of each package.
+ */
+interface ITnsModulesCopyRules {
+	exclude: string[];
+	include: string[];
+}
+
 export class TnsModulesCopy {
+	private static COPY_RULES_KEY = "tnsModules";
+	private static PLATFORMS_DIR_NAME = "platforms";
+
+	// Content of the packages, which is not needed at runtime.
+	private static DEFAULT_EXCLUDED_PATTERNS = [
+		"**/test/**", "**/tests/**", "**/__tests__/**", "**/doc/**", "**/docs/**", "**/example/**", "**/examples/**",
+		"**/*.md", "**/*.markdown", "**/README", "**/CHANGELOG", "**/HISTORY", "**/*.d.ts", "**/.npmignore", "**/.travis.yml"
+	];
+
+	// The sources and the source maps are needed for debugging, so they are excluded only in release builds.
+	private static DEFAULT_RELEASE_EXCLUDED_PATTERNS = ["**/*.ts", "**/*.map"];
+
+	// npm always publishes these files, regardless of the files property of package.json.
+	private static ALWAYS_PUBLISHED_PATTERNS = ["package.json", "README*", "CHANGELOG*", "HISTORY*", "LICENSE*", "LICENCE*"];
+
+	private matchers: IDictionary<minimatch.IMinimatch> = {};
+
 	constructor(
 		private outputRoot: string,
-		private $options: IOptions,
-		private $fs: IFileSystem
+		private manifestFilePath: string,
+		private projectDir: string,
+		private $fs: IFileSystem,
+		private $logger: ILogger,
+		private $projectDataService: IProjectDataService
 	) {
 	}
 
-	public copyModules(dependencies: any[], platform: string): void {
-		for (let entry in dependencies) {
-			let dependency = dependencies[entry];
+	/**
+	 * Copies, updates or deletes only the packages whose resolved version or contents have changed since the manifest was written.
+	 * @param {boolean} release Whether the packages are copied for a release build. The files excluded from the packages depend on it.
+	 */
+	public async copyModules(dependencies: IResolvedDependencyData[], platform: string, release: boolean): Promise<void> {
+		let previousManifest = this.readManifest();
+		let manifest: IDictionary<ITnsModulesManifestEntry> = {};
+		let copyRules = this.getCopyRules(release);
+		let nestedDependencyDirectories = _(dependencies).filter(d => d.depth > 0).map(d => d.directory).value();
+		for (let dependency of _.filter(dependencies, d => d.depth === 0)) {
+			let entry = await this.getManifestEntry(dependency, copyRules, release);
+			manifest[dependency.name] = entry;
+			if (_.isEqual(previousManifest[dependency.name], entry) && this.$fs.exists(path.join(this.outputRoot, dependency.name))) {
+				continue;
+			}
 
-			this.copyDependencyDir(dependency);
+			this.$logger.trace(`Copying ${dependency.name}@${entry.version} to ${this.outputRoot}.`);
+			await this.copyDependencyDir(dependency, copyRules, nestedDependencyDirectories);
+		}
 
-			if (dependency.name === constants.TNS_CORE_MODULES_NAME) {
-				let tnsCoreModulesResourcePath = path.join(this.outputRoot, constants.TNS_CORE_MODULES_NAME);
+		let removedDependencies = _.difference(_.keys(previousManifest), _.keys(manifest));
+		for (let dependencyName of removedDependencies) {
+			this.$logger.trace(`Deleting ${dependencyName} from ${this.outputRoot}.`);
+			this.deleteDependencyDir(dependencyName);
+		}
 
-				// Remove .ts files
-				let allFiles = this.$fs.enumerateFilesInDirectorySync(tnsCoreModulesResourcePath);
-				let matchPattern = this.$options.release ? "**/*.ts" : "**/*.d.ts";
-				allFiles.filter(file => minimatch(file, matchPattern, { nocase: true })).map(file => this.$fs.deleteFile(file));
+		this.$fs.writeJson(this.manifestFilePath, manifest);
+	}
 
-				shelljs.rm("-rf", path.join(tnsCoreModulesResourcePath, "node_modules"));
+	private readManifest(): IDictionary<ITnsModulesManifestEntry> {
+		// Without the copied packages the manifest does not describe anything, so everything is copied again.
+		if (!this.$fs.exists(this.outputRoot) || !this.$fs.exists(this.manifestFilePath)) {
+			return {};
+		}
+
+		try {
+			return this.$fs.readJson(this.manifestFilePath);
+		} catch (err) {
+			this.$logger.trace(`Unable to read ${this.manifestFilePath}: ${err}`);
+			return {};
+		}
+	}
+
+	/**
+	 * Gets the rules for the files which are not copied. By default the tests, docs, examples and type definitions are excluded,
+	 * and in release builds the sources and source maps as well. The tnsModules property of the nativescript key in package.json can add exclude patterns,
+	 * as an array or per configuration, include patterns which override the exclusions, or turn off the defaults.
+	 */
+	private getCopyRules(release: boolean): ITnsModulesCopyRules {
+		let configuredRules = (this.projectDir && this.$projectDataService.getNSValue(this.projectDir, TnsModulesCopy.COPY_RULES_KEY)) || {};
+		let exclude: string[] = [];
+		if (configuredRules.defaultExclude !== false) {
+			exclude = exclude.concat(TnsModulesCopy.DEFAULT_EXCLUDED_PATTERNS, release ? TnsModulesCopy.DEFAULT_RELEASE_EXCLUDED_PATTERNS : []);
+		}
+
+		let configuredExclude = configuredRules.exclude;
+		if (_.isArray(configuredExclude)) {
+			exclude = exclude.concat(configuredExclude);
+		} else if (_.isObject(configuredExclude)) {
+			exclude = exclude.concat(configuredExclude.all || [], (release ? configuredExclude.release : configuredExclude.debug) || []);
+		}
+
+		return { exclude, include: configuredRules.include || [] };
+	}
+
+	private async getManifestEntry(dependency: IResolvedDependencyData, copyRules: ITnsModulesCopyRules, release: boolean): Promise<ITnsModulesManifestEntry> {
+		let packageJsonPath = path.join(dependency.directory, constants.PACKAGE_JSON_FILE_NAME);
+		let packageJson = this.$fs.exists(packageJsonPath) ? this.$fs.readJson(packageJsonPath) : {};
+		let signature = crypto.createHash("sha1");
+		let files = await this.getFileStats(dependency.directory);
+		_.each(_.keys(files).sort(), file => signature.update(`${file}:${files[file].size}:${files[file].mtime.getTime()}\n`));
+
+		return {
+			version: packageJson.version,
+			directory: dependency.directory,
+			release: !!release,
+			signature: signature.digest("hex"),
+			copyRules
+		};
+	}
+
+	/**
+	 * Gets the stats of the files of a package, keyed by their path relative to the package directory.
+	 * The platforms directory is skipped as it is never copied to tns_modules.
+	 */
+	private async getFileStats(directoryPath: string, relativePath?: string): Promise<IDictionary<fs.Stats>> {
+		let result: IDictionary<fs.Stats> = {};
+		let entries = await this.readDirectory(path.join(directoryPath, relativePath || ""));
+		for (let entry of entries) {
+			let entryRelativePath = relativePath ? path.join(relativePath, entry) : entry;
+			if (!relativePath && entry === "platforms") {
+				continue;
+			}
+
+			let stat = await this.stat(path.join(directoryPath, entryRelativePath));
+			if (stat.isDirectory()) {
+				_.extend(result, await this.getFileStats(directoryPath, entryRelativePath));
+			} else {
+				result[entryRelativePath.replace(/\\/g, "/")] = stat;
 			}
 		}
+
+		return result;
+	}
+
+	private async copyDependencyDir(dependency: IResolvedDependencyData, copyRules: ITnsModulesCopyRules, nestedDependencyDirectories: string[]): Promise<void> {
+		const targetPackageDir = path.join(this.outputRoot, dependency.name);
+		shelljs.rm("-rf", targetPackageDir);
+		await this.copyPackage(dependency.directory, targetPackageDir, copyRules, nestedDependencyDirectories);
 	}
 
-	private copyDependencyDir(dependency: any): void {
-		if (dependency.depth === 0) {
-			let isScoped = dependency.name.indexOf("@") === 0;
-			let targetDir = this.outputRoot;
+	/**
+	 * Copies the published files of a package, which are not excluded by the copy rules. Of the nested node_modules only the production dependencies are copied.
+	 */
+	private async copyPackage(packageDirectoryPath: string, destinationDirectoryPath: string, copyRules: ITnsModulesCopyRules, nestedDependencyDirectories: string[]): Promise<void> {
+		let isPublished = this.getPublishedFilesFilter(packageDirectoryPath);
+		let isCopied = (relativePath: string): boolean => isPublished(relativePath) &&
+			(!this.matchesAny(relativePath, copyRules.exclude) || this.matchesAny(relativePath, copyRules.include));
+
+		let copyDirectory = async (relativeDirectoryPath: string): Promise<void> => {
+			for (let entry of await this.readDirectory(path.join(packageDirectoryPath, relativeDirectoryPath))) {
+				let relativePath = relativeDirectoryPath ? path.join(relativeDirectoryPath, entry) : entry;
+				let sourcePath = path.join(packageDirectoryPath, relativePath);
+				let destinationPath = path.join(destinationDirectoryPath, relativePath);
+
+				//skip platform-specific files (processed separately by plugin services)
+				if (!relativeDirectoryPath && entry === TnsModulesCopy.PLATFORMS_DIR_NAME) {
+					continue;
+				}
+
+				if (entry === constants.NODE_MODULES_FOLDER_NAME) {
+					await this.copyNestedDependencies(sourcePath, destinationPath, copyRules, nestedDependencyDirectories);
+				} else if ((await this.stat(sourcePath)).isDirectory()) {
+					await copyDirectory(relativePath);
+				} else if (isCopied(relativePath.replace(/\\/g, "/"))) {
+					this.$fs.ensureDirectoryExists(path.dirname(destinationPath));
+					await this.copyFile(sourcePath, destinationPath);
+				}
+			}
+		};
+
+		await copyDirectory("");
+	}
 
-			if (isScoped) {
-				targetDir = path.join(this.outputRoot, dependency.name.substring(0, dependency.name.indexOf("/")));
+	private async copyNestedDependencies(nodeModulesPath: string, destinationNodeModulesPath: string, copyRules: ITnsModulesCopyRules, nestedDependencyDirectories: string[]): Promise<void> {
+		for (let entry of await this.readDirectory(nodeModulesPath)) {
+			let modulePath = path.join(nodeModulesPath, entry);
+			if (/^@/.test(entry)) {
+				await this.copyNestedDependencies(modulePath, path.join(destinationNodeModulesPath, entry), copyRules, nestedDependencyDirectories);
+			} else if (_.includes(nestedDependencyDirectories, this.getRealPath(modulePath))) {
+				await this.copyPackage(modulePath, path.join(destinationNodeModulesPath, entry), copyRules, nestedDependencyDirectories);
 			}
+		}
+	}
+
+	/**
+	 * Gets a filter of the files which npm publishes for a package - the ones matching its files property, or otherwise the ones not matching its .npmignore file.
+	 */
+	private getPublishedFilesFilter(packageDirectoryPath: string): (relativePath: string) => boolean {
+		let packageJsonPath = path.join(packageDirectoryPath, constants.PACKAGE_JSON_FILE_NAME);
+		let packageJson = this.$fs.exists(packageJsonPath) ? this.$fs.readJson(packageJsonPath) : {};
+		if (_.isArray(packageJson.files)) {
+			let mainFiles = packageJson.main ? [packageJson.main, `${packageJson.main}.js`] : [];
+			let publishedFiles = _.map(packageJson.files.concat(TnsModulesCopy.ALWAYS_PUBLISHED_PATTERNS, mainFiles), (pattern: string) => pattern.replace(/\\/g, "/").replace(/^\.?\//, "").replace(/\/+$/, ""));
+			let publishedPatterns = _.flatten(_.map(publishedFiles, pattern => [pattern, `${pattern}/**`]));
+			return (relativePath: string) => this.matchesAny(relativePath, publishedPatterns);
+		}
+
+		let npmIgnorePath = path.join(packageDirectoryPath, ".npmignore");
+		if (this.$fs.exists(npmIgnorePath)) {
+			let ignoreRules = _(this.$fs.readText(npmIgnorePath).split(/\r?\n/))
+				.map(line => line.trim())
+				.filter(line => line && !_.startsWith(line, "#"))
+				.map(line => ({ isNegated: _.startsWith(line, "!"), globs: toGlobs(line.replace(/^!/, "")) }))
+				.value();
 
-			shelljs.mkdir("-p", targetDir);
-			shelljs.cp("-Rf", dependency.directory, targetDir);
+			// As in .npmignore, the last matching rule decides whether a file is ignored.
+			return (relativePath: string) => {
+				let matchingRule = _.findLast(ignoreRules, rule => this.matchesAny(relativePath, rule.globs));
+				return !matchingRule || matchingRule.isNegated || this.matchesAny(relativePath, TnsModulesCopy.ALWAYS_PUBLISHED_PATTERNS);
+			};
+		}
+
+		return () => true;
+	}
+
+	private matchesAny(relativePath: string, patterns: string[]): boolean {
+		// The patterns are matched against every file of every package, so they are compiled only once.
+		return _.some(patterns, pattern => {
+			this.matchers[pattern] = this.matchers[pattern] || new minimatch.Minimatch(pattern, { nocase: true, dot: true });
+			return this.matchers[pattern].match(relativePath);
+		});
+	}
 
-			//remove platform-specific files (processed separately by plugin services)
-			const targetPackageDir = path.join(targetDir, dependency.name);
-			shelljs.rm("-rf", path.join(targetPackageDir, "platforms"));
+	private getRealPath(filePath: string): string {
+		try {
+			return fs.realpathSync(filePath);
+		} catch (err) {
+			return filePath;
 		}
 	}
+
+	private deleteDependencyDir(dependencyName: string): void {
+		shelljs.rm("-rf", path.join(this.outputRoot, dependencyName));
+
+		let isScoped = dependencyName.indexOf("@") === 0;
+		if (isScoped) {
+			let scopeDir = path.join(this.outputRoot, dependencyName.substring(0, dependencyName.indexOf("/")));
+			if (this.$fs.exists(scopeDir) && this.$fs.isEmptyDir(scopeDir)) {
+				this.$fs.deleteDirectory(scopeDir);
+			}
+		}
+	}
+
+	private copyFile(sourcePath: string, destinationPath: string): Promise<void> {
+		return new Promise<void>((resolve, reject) => {
+			let readStream = fs.createReadStream(sourcePath);
+			let writeStream = fs.createWriteStream(destinationPath);
+			readStream.on("error", reject);
+			writeStream.on("error", reject);
+			writeStream.on("finish", () => resolve());
+			readStream.pipe(writeStream);
+		});
+	}
+
+	private readDirectory(directoryPath: string): Promise<string[]> {
+		return new Promise<string[]>((resolve, reject) => fs.readdir(directoryPath, (err, entries) => err ? reject(err) : resolve(entries)));
+	}
+
+	private stat(filePath: string): Promise<fs.Stats> {
+		return new Promise<fs.Stats>((resolve, reject) => fs.stat(filePath, (err, stat) => err ? reject(err) : resolve(stat)));
+	}
 }
 
 export class NpmPluginPrepare {
 	constructor(
 		private $fs: IFileSystem,
 		private $pluginsService: IPluginsService,
-		private $platformsData: IPlatformsData
+		private $platformsData: IPlatformsData,
+		private $pluginVariablesService: IPluginVariablesService
 	) {
 	}
 
-	protected async beforePrepare(dependencies: IDictionary<IDependencyData>, platform: string, projectData: IProjectData): Promise<void> {
+	protected async beforePrepare(dependencies: IDependencyData[], platform: string, projectData: IProjectData): Promise<void> {
 		await this.$platformsData.getPlatformData(platform, projectData).platformProjectService.beforePrepareAllPlugins(projectData, dependencies);
 	}
 
-	protected async afterPrepare(dependencies: IDictionary<IDependencyData>, platform: string, projectData: IProjectData): Promise<void> {
+	protected async afterPrepare(dependencies: IDependencyData[], platform: string, projectData: IProjectData): Promise<void> {
 		await this.$platformsData.getPlatformData(platform, projectData).platformProjectService.afterPrepareAllPlugins(projectData);
-		this.writePreparedDependencyInfo(dependencies, platform, projectData);
 	}
 
-	private writePreparedDependencyInfo(dependencies: IDictionary<IDependencyData>, platform: string, projectData: IProjectData): void {
-		let prepareData: IDictionary<boolean> = {};
-		_.values(dependencies).forEach(d => {
-			prepareData[d.name] = true;
-		});
+	protected async removeNativeCode(dependency: IDependencyData, platform: string, projectData: IProjectData): Promise<void> {
+		await this.$pluginsService.removeNativeCode(dependency, platform, projectData);
+	}
+
+	protected writePreparedDependencyInfo(preparedDependencies: IDictionary<IPreparedDependencyInfo>, platform: string, projectData: IProjectData): void {
 		this.$fs.createDirectory(this.preparedPlatformsDir(platform, projectData));
-		this.$fs.writeJson(this.preparedPlatformsFile(platform, projectData), prepareData, "    ", "utf8");
+		this.$fs.writeJson(this.preparedPlatformsFile(platform, projectData), preparedDependencies, "    ", "utf8");
 	}
 
 	private preparedPlatformsDir(platform: string, projectData: IProjectData): string {
@@ -94,38 +342,88 @@ export class NpmPluginPrepare {
 		return path.join(this.preparedPlatformsDir(platform, projectData), "prepared-platforms.json");
 	}
 
-	protected getPreviouslyPreparedDependencies(platform: string, projectData: IProjectData): IDictionary<boolean> {
+	protected getPreviouslyPreparedDependencies(platform: string, projectData: IProjectData): IDictionary<IPreparedDependencyInfo> {
 		if (!this.$fs.exists(this.preparedPlatformsFile(platform, projectData))) {
 			return {};
 		}
 		return this.$fs.readJson(this.preparedPlatformsFile(platform, projectData), "utf8");
 	}
 
-	private allPrepared(dependencies: IDictionary<IDependencyData>, platform: string, projectData: IProjectData): boolean {
-		let result = true;
+	/**
+	 * Describes the native code of a dependency - its version and a hash of its platforms/<platform> directory and of its variables with their values in the project.
+	 */
+	protected getPreparedDependencyInfo(dependency: ILocalDependencyData, platform: string, projectData: IProjectData): IPreparedDependencyInfo {
+		let hash = crypto.createHash("sha1");
+		let pluginPlatformsFolderPath = path.join(dependency.directory, "platforms", platform.toLowerCase());
+		if (this.$fs.exists(pluginPlatformsFolderPath)) {
+			let files = this.$fs.enumerateFilesInDirectorySync(pluginPlatformsFolderPath);
+			_.each(_.sortBy(files, file => path.relative(pluginPlatformsFolderPath, file)), file => {
+				hash.update(`${path.relative(pluginPlatformsFolderPath, file)}\n`);
+				hash.update(this.$fs.readFile(file));
+			});
+		}
+
+		let variables = dependency.nativescript && dependency.nativescript.variables;
+		if (variables) {
+			let variableValues = this.$pluginVariablesService.getPluginVariablesValues(<IPluginData>{ name: dependency.name, pluginVariables: _.cloneDeep(variables) }, projectData);
+			hash.update(JSON.stringify({ variables, variableValues }));
+		}
+
+		return {
+			version: dependency.version,
+			directory: dependency.directory,
+			isPlugin: !!dependency.nativescript,
+			hash: hash.digest("hex")
+		};
+	}
+
+	/**
+	 * Prepares only the plugins whose version, native code or variables have changed since they were prepared and removes the native code of the plugins which are no longer dependencies.
+	 * Records written by previous versions of the CLI contain only the names of the dependencies, so all plugins are prepared again.
+	 */
+	public async preparePlugins(dependencies: IDependencyData[], platform: string, projectData: IProjectData): Promise<void> {
 		const previouslyPrepared = this.getPreviouslyPreparedDependencies(platform, projectData);
-		_.values(dependencies).forEach(d => {
-			if (!previouslyPrepared[d.name]) {
-				result = false;
-			}
+		if (_.isEmpty(dependencies) && _.isEmpty(previouslyPrepared)) {
+			return;
+		}
+
+		let preparedDependencies: IDictionary<IPreparedDependencyInfo> = {};
+		_.each(dependencies, (dependency: ILocalDependencyData) => {
+			preparedDependencies[dependency.name] = this.getPreparedDependencyInfo(dependency, platform, projectData);
 		});
-		return result;
-	}
 
-	public async preparePlugins(dependencies: IDictionary<IDependencyData>, platform: string, projectData: IProjectData): Promise<void> {
-		if (_.isEmpty(dependencies) || this.allPrepared(dependencies, platform, projectData)) {
+		let changedDependencies = _.filter(dependencies, dependency => !this.isPrepared(previouslyPrepared[dependency.name], preparedDependencies[dependency.name]));
+		let removedDependencyNames = _.filter(_.keys(previouslyPrepared), name => !preparedDependencies[name]);
+		if (!changedDependencies.length && !removedDependencyNames.length) {
 			return;
 		}
 
 		await this.beforePrepare(dependencies, platform, projectData);
-		for (let dependencyKey in dependencies) {
-			const dependency = dependencies[dependencyKey];
+		for (let name of removedDependencyNames) {
+			let removedDependency = previouslyPrepared[name];
+			if (removedDependency.isPlugin) {
+				await this.removeNativeCode(<ILocalDependencyData>{ name, version: removedDependency.version, directory: removedDependency.directory, nativescript: {} }, platform, projectData);
+			}
+		}
+
+		for (let dependency of changedDependencies) {
 			let isPlugin = !!dependency.nativescript;
 			if (isPlugin) {
+				// The native code of the previous version is removed, so files and pods which are no longer in the plugin are not left in the native project.
+				let previousDependency = previouslyPrepared[dependency.name];
+				if (previousDependency && previousDependency.isPlugin) {
+					await this.removeNativeCode(dependency, platform, projectData);
+				}
+
 				await this.$pluginsService.prepare(dependency, platform, projectData);
 			}
 		}
 
 		await this.afterPrepare(dependencies, platform, projectData);
+		this.writePreparedDependencyInfo(preparedDependencies, platform, projectData);
+	}
+
+	private isPrepared(previousDependency: IPreparedDependencyInfo, dependency: IPreparedDependencyInfo): boolean {
+		return !!previousDependency && previousDependency.version === dependency.version && previousDependency.hash === dependency.hash;
 	}
 }
@@ -0,0 +1,87 @@
+import { Yok } from "../lib/common/yok";
+import { AndroidProjectService } from "../lib/services/android-project-service";
+import * as fsLib from "../lib/common/file-system";
+import * as stubs from "./stubs";
+import { assert } from "chai";
+import * as path from "path";
+
+let temp = require("temp");
+temp.track();
+
+describe("Android project service", () => {
+	describe("plugins preparation", () => {
+		let projectRoot: string,
+			projectData: IProjectData,
+			fileSystem: IFileSystem,
+			androidProjectService: AndroidProjectService,
+			cleanedProjects: number;
+
+		let addNativePlugin = (pluginName: string, includeGradleContent: string): void => {
+			fileSystem.writeFile(path.join(projectRoot, "configurations", pluginName, "include.gradle"), includeGradleContent);
+			fileSystem.writeFile(path.join(projectRoot, "src", pluginName, "AndroidManifest.xml"), "<manifest/>");
+		};
+
+		beforeEach(() => {
+			let platformsDir = temp.mkdirSync("android-project-service");
+			projectRoot = path.join(platformsDir, "android");
+			projectData = <IProjectData>{ platformsDir, projectName: "app", projectId: "org.nativescript.app" };
+			cleanedProjects = 0;
+
+			let testInjector = new Yok();
+			testInjector.register("androidEmulatorServices", {});
+			testInjector.register("androidToolsInfo", {});
+			testInjector.register("childProcess", {});
+			testInjector.register("errors", stubs.ErrorsStub);
+			testInjector.register("fs", fsLib.FileSystem);
+			testInjector.register("hostInfo", {});
+			testInjector.register("logger", stubs.LoggerStub);
+			testInjector.register("projectDataService", {});
+			testInjector.register("sysInfo", {});
+			testInjector.register("injector", testInjector);
+			testInjector.register("pluginVariablesService", {});
+			testInjector.register("devicePlatformsConstants", {});
+			testInjector.register("config", { debugLivesync: false });
+			testInjector.register("npm", {});
+
+			fileSystem = testInjector.resolve("fs");
+			androidProjectService = testInjector.resolve(AndroidProjectService);
+			androidProjectService.cleanProject = async (): Promise<void> => {
+				cleanedProjects++;
+			};
+		});
+
+		it("does not clean the project when the native code of the plugins has not changed", async () => {
+			addNativePlugin("nativescript-camera", "android {}");
+			await androidProjectService.afterPrepareAllPlugins(projectData);
+
+			await androidProjectService.beforePrepareAllPlugins(projectData, []);
+			await androidProjectService.afterPrepareAllPlugins(projectData);
+
+			assert.equal(cleanedProjects, 1);
+		});
+
+		it("cleans the project when the native code of a plugin has changed", async () => {
+			addNativePlugin("nativescript-camera", "android {}");
+			await androidProjectService.afterPrepareAllPlugins(projectData);
+
+			addNativePlugin("nativescript-camera", "android { defaultConfig {} }");
+			await androidProjectService.afterPrepareAllPlugins(projectData);
+
+			assert.equal(cleanedProjects, 2);
+		});
+
+		it("removes the native code of a plugin and cleans the project after the plugins are prepared", async () => {
+			addNativePlugin("nativescript-camera", "android {}");
+			await androidProjectService.afterPrepareAllPlugins(projectData);
+
+			await androidProjectService.removePluginNativeCode(<IPluginData>{ name: "nativescript-camera" }, projectData);
+
+			assert.isFalse(fileSystem.exists(path.join(projectRoot, "configurations", "nativescript-camera")));
+			assert.isFalse(fileSystem.exists(path.join(projectRoot, "src", "nativescript-camera")));
+			assert.equal(cleanedProjects, 1);
+
+			await androidProjectService.afterPrepareAllPlugins(projectData);
+			assert.equal(cleanedProjects, 2);
+		});
+	});
+});
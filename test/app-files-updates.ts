@@ -1,5 +1,12 @@
 import { assert } from "chai";
 import { AppFilesUpdater } from "../lib/services/app-files-updater";
+import { Yok } from "../lib/common/yok";
+import * as fsLib from "../lib/common/file-system";
+import * as path from "path";
+import * as fs from "fs";
+
+let temp = require("temp");
+temp.track();
 
 require("should");
 
@@ -80,3 +87,126 @@ describe("App files copy", () => {
 		assert.deepEqual(["App_Resources/Android/blah.png"], updater.copiedDestinationItems);
 	});
 });
+
+describe("App files sync", () => {
+	let fileSystem: IFileSystem,
+		sourceDir: string,
+		destinationDir: string,
+		appFilesInfoFilePath: string,
+		copiedFiles: string[];
+
+	function syncApp(options?: { release: boolean; bundle: boolean; excludedPatterns?: string[] }, getPreparedFilePath?: (relativePath: string) => string): void {
+		const updater = new AppFilesUpdater(sourceDir, destinationDir, options || { release: false, bundle: false }, fileSystem, appFilesInfoFilePath, getPreparedFilePath);
+		updater.updateApp(sourceFiles => copiedFiles = sourceFiles.map(file => path.relative(sourceDir, file)));
+	}
+
+	// Prepares the files for iOS the way the platform specific files are processed after the sync.
+	function getPreparedIOSFilePath(relativePath: string): string {
+		return /[.]android[.]/.test(relativePath) ? null : relativePath.replace(".ios.", ".");
+	}
+
+	function processIOSFiles(): void {
+		fs.renameSync(path.join(destinationDir, "page.ios.js"), path.join(destinationDir, "page.js"));
+		fileSystem.deleteFile(path.join(destinationDir, "page.android.js"));
+	}
+
+	beforeEach(() => {
+		let testInjector = new Yok();
+		testInjector.register("fs", fsLib.FileSystem);
+		fileSystem = testInjector.resolve("fs");
+
+		let tempFolder = temp.mkdirSync("app-files-sync");
+		sourceDir = path.join(tempFolder, "app");
+		destinationDir = path.join(tempFolder, "platforms", "app");
+		appFilesInfoFilePath = path.join(tempFolder, "platforms", ".nsappfilesinfo");
+
+		fileSystem.writeFile(path.join(sourceDir, "main.js"), "main");
+		fileSystem.writeFile(path.join(sourceDir, "views", "page.xml"), "<Page/>");
+		fileSystem.writeFile(path.join(destinationDir, "tns_modules", "module.js"), "module");
+		syncApp();
+	});
+
+	it("copies all files on the first sync", () => {
+		assert.isTrue(fileSystem.exists(path.join(destinationDir, "main.js")));
+		assert.isTrue(fileSystem.exists(path.join(destinationDir, "views", "page.xml")));
+		assert.isTrue(fileSystem.exists(appFilesInfoFilePath));
+	});
+
+	it("copies only the changed files", () => {
+		fs.writeFileSync(path.join(sourceDir, "main.js"), "changed main");
+		syncApp();
+
+		assert.deepEqual(copiedFiles, ["main.js"]);
+		assert.equal(fileSystem.readText(path.join(destinationDir, "main.js")), "changed main");
+	});
+
+	it("deletes the removed files and keeps tns_modules", () => {
+		fileSystem.deleteDirectory(path.join(sourceDir, "views"));
+		syncApp();
+
+		assert.deepEqual(copiedFiles, []);
+		assert.isFalse(fileSystem.exists(path.join(destinationDir, "views")));
+		assert.isTrue(fileSystem.exists(path.join(destinationDir, "tns_modules", "module.js")));
+	});
+
+	it("replaces symlinks in the destination app", () => {
+		let linkTarget = path.join(sourceDir, "..", "target.js");
+		fileSystem.writeFile(linkTarget, "target");
+		fs.unlinkSync(path.join(destinationDir, "main.js"));
+		fs.symlinkSync(linkTarget, path.join(destinationDir, "main.js"));
+		fs.writeFileSync(path.join(sourceDir, "main.js"), "changed main");
+		syncApp();
+
+		assert.isFalse(fs.lstatSync(path.join(destinationDir, "main.js")).isSymbolicLink());
+		assert.equal(fileSystem.readText(linkTarget), "target");
+	});
+
+	it("deletes the files excluded in release", () => {
+		fileSystem.writeFile(path.join(sourceDir, "tests", "test.js"), "test");
+		syncApp();
+		assert.isTrue(fileSystem.exists(path.join(destinationDir, "tests", "test.js")));
+
+		syncApp({ release: true, bundle: false, excludedPatterns: ["tests", "tests/**"] });
+		assert.isFalse(fileSystem.exists(path.join(destinationDir, "tests")));
+	});
+
+	it("does not copy again the platform specific files which have not changed", () => {
+		fileSystem.writeFile(path.join(sourceDir, "page.ios.js"), "ios page");
+		fileSystem.writeFile(path.join(sourceDir, "page.android.js"), "android page");
+		syncApp(null, getPreparedIOSFilePath);
+		processIOSFiles();
+
+		syncApp(null, getPreparedIOSFilePath);
+
+		assert.deepEqual(copiedFiles, []);
+		assert.isTrue(fileSystem.exists(path.join(destinationDir, "page.js")));
+		assert.isFalse(fileSystem.exists(path.join(destinationDir, "page.ios.js")));
+		assert.isFalse(fileSystem.exists(path.join(destinationDir, "page.android.js")));
+	});
+
+	it("deletes the prepared files of the removed platform specific files", () => {
+		fileSystem.writeFile(path.join(sourceDir, "page.ios.js"), "ios page");
+		fileSystem.writeFile(path.join(sourceDir, "page.android.js"), "android page");
+		syncApp(null, getPreparedIOSFilePath);
+		processIOSFiles();
+
+		fileSystem.deleteFile(path.join(sourceDir, "page.ios.js"));
+		fileSystem.deleteFile(path.join(sourceDir, "page.android.js"));
+		syncApp(null, getPreparedIOSFilePath);
+
+		assert.deepEqual(copiedFiles, []);
+		assert.isFalse(fileSystem.exists(path.join(destinationDir, "page.js")));
+		assert.isTrue(fileSystem.exists(path.join(destinationDir, "main.js")));
+	});
+
+	it("does not copy the excluded files", () => {
+		fileSystem.writeFile(path.join(sourceDir, "fixtures", "data.json"), "{}");
+		fileSystem.writeFile(path.join(sourceDir, "images", "logo.psd"), "psd");
+		syncApp({ release: false, bundle: false, excludedPatterns: ["**/*.psd", "fixtures", "fixtures/**"] });
+
+		assert.notInclude(copiedFiles, path.join("images", "logo.psd"));
+		assert.notInclude(copiedFiles, path.join("fixtures", "data.json"));
+		assert.isFalse(fileSystem.exists(path.join(destinationDir, "fixtures")));
+		assert.isFalse(fileSystem.exists(path.join(destinationDir, "images", "logo.psd")));
+	});
+});
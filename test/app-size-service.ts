@@ -0,0 +1,109 @@
+import { Yok } from "../lib/common/yok";
+import { AppSizeService } from "../lib/services/app-size-service";
+import * as fsLib from "../lib/common/file-system";
+import * as stubs from "./stubs";
+import { assert } from "chai";
+import * as path from "path";
+import * as fs from "fs";
+
+let temp = require("temp");
+temp.track();
+
+describe("App size service", () => {
+	let projectDir: string,
+		appDirectoryPath: string,
+		buildOutputPath: string,
+		budget: any,
+		fileSystem: IFileSystem,
+		appSizeService: IAppSizeService;
+
+	let projectData = <IProjectData>{};
+	let buildConfig: IBuildConfig = { projectDir: null, buildForDevice: true, release: true };
+
+	let writeFile = (filePath: string, size: number): void => {
+		fileSystem.writeFile(filePath, _.repeat("a", size));
+	};
+
+	let addPackage = (directory: string, name: string, version: string, dependencies?: IStringDictionary): void => {
+		fileSystem.writeJson(path.join(directory, "package.json"), { name, version, dependencies: dependencies || {} });
+	};
+
+	beforeEach(() => {
+		projectDir = fs.realpathSync(temp.mkdirSync("app-size-service"));
+		projectData.projectDir = projectDir;
+		appDirectoryPath = path.join(projectDir, "platforms", "android", "src", "main", "assets", "app");
+		buildOutputPath = path.join(projectDir, "platforms", "android", "build", "outputs", "apk");
+		budget = null;
+
+		let testInjector = new Yok();
+		testInjector.register("injector", testInjector);
+		testInjector.register("fs", fsLib.FileSystem);
+		testInjector.register("logger", stubs.LoggerStub);
+		testInjector.register("errors", stubs.ErrorsStub);
+		testInjector.register("projectDataService", {
+			getNSValue: (dir: string, propertyName: string): any => budget
+		});
+		testInjector.register("platformsData", {
+			getPlatformData: (platform: string): any => ({
+				appDestinationDirectoryPath: path.dirname(appDirectoryPath),
+				deviceBuildOutputPath: buildOutputPath,
+				getValidPackageNames: (buildOptions: any): string[] => ["app-release.apk"]
+			})
+		});
+		testInjector.register("platformService", {
+			getLatestApplicationPackageForDevice: (): IApplicationPackage => ({ packageName: path.join(buildOutputPath, "app-release.apk"), time: null })
+		});
+
+		fileSystem = testInjector.resolve("fs");
+		appSizeService = testInjector.resolve(AppSizeService);
+
+		addPackage(projectDir, "app", "1.0.0", { "nativescript-plugin": "1.0.0" });
+		addPackage(path.join(projectDir, "node_modules", "nativescript-plugin"), "nativescript-plugin", "1.0.0", { "lodash": "3.0.0" });
+		addPackage(path.join(projectDir, "node_modules", "nativescript-plugin", "node_modules", "lodash"), "lodash", "3.0.0");
+		writeFile(path.join(appDirectoryPath, "main-page.js"), 100);
+		writeFile(path.join(appDirectoryPath, "App_Resources", "icon.png"), 200);
+		writeFile(path.join(appDirectoryPath, "tns_modules", "nativescript-plugin", "index.js"), 300);
+		writeFile(path.join(appDirectoryPath, "tns_modules", "nativescript-plugin", "node_modules", "lodash", "index.js"), 400);
+	});
+
+	it("breaks the size of the app down into app code, App_Resources and packages", async () => {
+		let report = await appSizeService.getAppSizeReport("android", buildConfig, projectData);
+
+		assert.deepEqual(_.pick(report, ["appSize", "appCodeSize", "appResourcesSize", "tnsModulesSize"]), { appSize: 1000, appCodeSize: 100, appResourcesSize: 200, tnsModulesSize: 700 });
+		assert.deepEqual(report.packages, [{ name: "lodash", version: "3.0.0", size: 400 }, { name: "nativescript-plugin", version: "1.0.0", size: 300 }]);
+		assert.isNull(report.build);
+	});
+
+	it("breaks the size of the application package down by zip entry", async () => {
+		let filesPath = path.join(projectDir, "apk");
+		writeFile(path.join(filesPath, "classes.dex"), 5000);
+		writeFile(path.join(filesPath, "assets", "app", "main-page.js"), 100);
+		await fileSystem.zipFiles(path.join(buildOutputPath, "app-release.apk"), fileSystem.enumerateFilesInDirectorySync(filesPath), filePath => path.relative(filesPath, filePath).split(path.sep).join("/"));
+
+		let report = await appSizeService.getAppSizeReport("android", buildConfig, projectData);
+
+		assert.deepEqual(_.sortBy(_.map(report.build.entries, entry => _.pick(entry, ["name", "size"])), "name"), [{ name: "assets/app/main-page.js", size: 100 }, { name: "classes.dex", size: 5000 }]);
+		assert.equal(report.build.size, fileSystem.getFileSize(path.join(buildOutputPath, "app-release.apk")));
+	});
+
+	it("compares the sizes with a previous report", async () => {
+		let previousReport = await appSizeService.getAppSizeReport("android", buildConfig, projectData);
+		writeFile(path.join(appDirectoryPath, "tns_modules", "nativescript-plugin", "index.js"), 500);
+
+		let changes = appSizeService.compareReports(previousReport, await appSizeService.getAppSizeReport("android", buildConfig, projectData));
+
+		assert.deepEqual(_.find(changes, change => change.name === "Total"), { name: "Total", previousSize: 1000, currentSize: 1200 });
+		assert.deepEqual(_.find(changes, change => change.name === "nativescript-plugin"), { name: "nativescript-plugin", previousSize: 300, currentSize: 500 });
+		assert.isUndefined(_.find(changes, change => change.name === "lodash"));
+	});
+
+	it("fails when the application package exceeds the budget of the platform", async () => {
+		writeFile(path.join(buildOutputPath, "app-release.apk"), 2048);
+		budget = { android: "1KB", ios: "10KB" };
+
+		await assert.isRejected(appSizeService.checkBudget("android", buildConfig, projectData), "The size of app-release.apk (2.00 KB) exceeds the budget of 1.00 KB set in package.json.");
+
+		budget = { android: "2KB" };
+		await appSizeService.checkBudget("android", buildConfig, projectData);
+	});
+});
@@ -0,0 +1,107 @@
+import { Yok } from "../lib/common/yok";
+import { BuildArtifactsCacheService } from "../lib/services/build-artifacts-cache-service";
+import * as fsLib from "../lib/common/file-system";
+import * as stubs from "./stubs";
+import { assert } from "chai";
+import * as path from "path";
+import * as fs from "fs";
+
+let temp = require("temp");
+temp.track();
+
+describe("Build Artifacts Cache Service", () => {
+	let projectData: IProjectData,
+		projectRoot: string,
+		cacheDirectoryPath: string,
+		options: any,
+		buildConfig: IBuildConfig,
+		fileSystem: IFileSystem,
+		buildArtifactsCacheService: IBuildArtifactsCacheService;
+
+	beforeEach(() => {
+		let projectDir = temp.mkdirSync("build-artifacts-cache");
+		projectRoot = path.join(projectDir, "platforms", "android");
+		cacheDirectoryPath = path.join(projectDir, "build-cache");
+		projectData = <any>{ projectDir };
+		options = { buildCache: cacheDirectoryPath };
+		buildConfig = <any>{ buildForDevice: true, release: false, projectDir };
+
+		let testInjector = new Yok();
+		testInjector.register("fs", fsLib.FileSystem);
+		testInjector.register("logger", stubs.LoggerStub);
+		testInjector.register("options", options);
+		testInjector.register("config", {});
+		testInjector.register("platformsData", {
+			getPlatformData: (platform: string) => ({ projectRoot, frameworkPackageName: "tns-android" })
+		});
+		testInjector.register("projectDataService", {
+			getNSValue: (dir: string, propertyName: string) => ({ version: "3.0.0" })
+		});
+		testInjector.register("projectChangesService", {
+			getPrepareInfoFilePath: (platform: string) => path.join(projectRoot, ".nsprepareinfo")
+		});
+
+		fileSystem = testInjector.resolve("fs");
+		fileSystem.writeFile(path.join(projectRoot, "src", "main", "AndroidManifest.xml"), "<manifest/>");
+		fileSystem.writeFile(path.join(projectRoot, "src", "main", "assets", "app", "main-page.js"), "console.log('main page');");
+		buildArtifactsCacheService = testInjector.resolve(BuildArtifactsCacheService);
+	});
+
+	it("does not calculate a fingerprint when there is no cache directory", () => {
+		options.buildCache = null;
+
+		assert.isNull(buildArtifactsCacheService.getFingerprint("android", projectData, buildConfig));
+	});
+
+	it("ignores the build outputs and the prepare info when calculating the fingerprint", () => {
+		let fingerprint = buildArtifactsCacheService.getFingerprint("android", projectData, buildConfig);
+		fileSystem.writeFile(path.join(projectRoot, "build", "outputs", "apk", "app-debug.apk"), "apk");
+		fileSystem.writeFile(path.join(projectRoot, ".nsprepareinfo"), "{}");
+
+		assert.equal(buildArtifactsCacheService.getFingerprint("android", projectData, buildConfig), fingerprint);
+	});
+
+	it("changes the fingerprint when the prepared project changes", () => {
+		let fingerprint = buildArtifactsCacheService.getFingerprint("android", projectData, buildConfig);
+		fileSystem.writeFile(path.join(projectRoot, "src", "main", "assets", "app", "main-page.js"), "console.log('changed main page');");
+
+		assert.notEqual(buildArtifactsCacheService.getFingerprint("android", projectData, buildConfig), fingerprint);
+	});
+
+	it("changes the fingerprint when a build directory inside the prepared app changes", () => {
+		let packageBuildFilePath = path.join(projectRoot, "src", "main", "assets", "app", "tns_modules", "some-package", "build", "index.js");
+		fileSystem.writeFile(packageBuildFilePath, "module.exports = 1;");
+		let fingerprint = buildArtifactsCacheService.getFingerprint("android", projectData, buildConfig);
+		fileSystem.writeFile(packageBuildFilePath, "module.exports = 2;");
+
+		assert.notEqual(buildArtifactsCacheService.getFingerprint("android", projectData, buildConfig), fingerprint);
+	});
+
+	it("ignores the user data of the Xcode project when calculating the fingerprint", () => {
+		let fingerprint = buildArtifactsCacheService.getFingerprint("android", projectData, buildConfig);
+		fileSystem.writeFile(path.join(projectRoot, "app.xcodeproj", "xcuserdata", "user.xcuserdatad", "xcschemes.plist"), "<plist/>");
+
+		assert.equal(buildArtifactsCacheService.getFingerprint("android", projectData, buildConfig), fingerprint);
+	});
+
+	it("changes the fingerprint when the build configuration or the signing inputs change", () => {
+		let fingerprint = buildArtifactsCacheService.getFingerprint("android", projectData, buildConfig);
+
+		assert.notEqual(buildArtifactsCacheService.getFingerprint("android", projectData, _.extend({}, buildConfig, { release: true })), fingerprint);
+		assert.notEqual(buildArtifactsCacheService.getFingerprint("android", projectData, _.extend({}, buildConfig, { keyStoreAlias: "alias" })), fingerprint);
+	});
+
+	it("restores a stored application package", () => {
+		let fingerprint = buildArtifactsCacheService.getFingerprint("android", projectData, buildConfig);
+		let buildOutputPath = path.join(projectRoot, "build", "outputs", "apk");
+		let packagePath = path.join(buildOutputPath, "app-debug.apk");
+		fileSystem.writeFile(packagePath, "apk");
+
+		assert.isFalse(buildArtifactsCacheService.restoreArtifact(fingerprint, buildOutputPath));
+		buildArtifactsCacheService.storeArtifact(fingerprint, packagePath);
+		fs.unlinkSync(packagePath);
+
+		assert.isTrue(buildArtifactsCacheService.restoreArtifact(fingerprint, buildOutputPath));
+		assert.equal(fs.readFileSync(packagePath).toString(), "apk");
+	});
+});
@@ -9,6 +9,10 @@ import { FileSystem } from "../lib/common/file-system";
 import { AndroidProjectService } from "../lib/services/android-project-service";
 import { AndroidDebugBridge } from "../lib/common/mobile/android/android-debug-bridge";
 import { AndroidDebugBridgeResultHandler } from "../lib/common/mobile/android/android-debug-bridge-result-handler";
+import * as path from "path";
+
+let temp = require("temp");
+temp.track();
 
 function createTestInjector(): IInjector {
 	let testInjector: IInjector = new yok.Yok();
@@ -85,7 +89,7 @@ describe("Debugger tests", () => {
 		assert.isTrue(spawnFromEventCount === childProcess.spawnFromEventCount);
 	});
 
-	it("Ensures that beforePrepareAllPlugins will call gradle with clean option when *NOT* livesyncing", async () => {
+	it("Ensures that beforePrepareAllPlugins will not call gradle when *NOT* livesyncing", async () => {
 		let config: IConfiguration = testInjector.resolve("config");
 		config.debugLivesync = false;
 		let childProcess: stubs.ChildProcessStub = testInjector.resolve("childProcess");
@@ -93,9 +97,51 @@ describe("Debugger tests", () => {
 		let projectData: IProjectData = testInjector.resolve("projectData");
 		let spawnFromEventCount = childProcess.spawnFromEventCount;
 		await androidProjectService.beforePrepareAllPlugins(projectData);
-		assert.isTrue(childProcess.lastCommand.indexOf("gradle") !== -1);
-		assert.isTrue(childProcess.lastCommandArgs[0] === "clean");
-		assert.isTrue(spawnFromEventCount === 0);
-		assert.isTrue(spawnFromEventCount + 1 === childProcess.spawnFromEventCount);
+		assert.isTrue(spawnFromEventCount === childProcess.spawnFromEventCount);
+	});
+
+	describe("afterPrepareAllPlugins", () => {
+		let childProcess: stubs.ChildProcessStub,
+			androidProjectService: IPlatformProjectService,
+			projectData: IProjectData,
+			fileSystem: IFileSystem,
+			includeGradleFilePath: string;
+
+		beforeEach(() => {
+			childProcess = testInjector.resolve("childProcess");
+			androidProjectService = testInjector.resolve("androidProjectService");
+			projectData = testInjector.resolve("projectData");
+			projectData.platformsDir = temp.mkdirSync("debug-android-plugins");
+			fileSystem = testInjector.resolve("fs");
+			includeGradleFilePath = path.join(projectData.platformsDir, "android", "configurations", "nativescript-camera", "include.gradle");
+			fileSystem.writeFile(includeGradleFilePath, "android {}");
+		});
+
+		it("Ensures that afterPrepareAllPlugins will call gradle with clean option only when the native code of the plugins has changed", async () => {
+			let config: IConfiguration = testInjector.resolve("config");
+			config.debugLivesync = false;
+			let spawnFromEventCount = childProcess.spawnFromEventCount;
+
+			await androidProjectService.afterPrepareAllPlugins(projectData);
+			assert.isTrue(childProcess.lastCommand.indexOf("gradle") !== -1);
+			assert.isTrue(childProcess.lastCommandArgs[0] === "clean");
+			assert.isTrue(spawnFromEventCount + 1 === childProcess.spawnFromEventCount);
+
+			await androidProjectService.afterPrepareAllPlugins(projectData);
+			assert.isTrue(spawnFromEventCount + 1 === childProcess.spawnFromEventCount);
+
+			fileSystem.writeFile(includeGradleFilePath, "android { defaultConfig {} }");
+			await androidProjectService.afterPrepareAllPlugins(projectData);
+			assert.isTrue(childProcess.lastCommandArgs[0] === "clean");
+			assert.isTrue(spawnFromEventCount + 2 === childProcess.spawnFromEventCount);
+		});
+
+		it("Ensures that afterPrepareAllPlugins will not call gradle when livesyncing", async () => {
+			let config: IConfiguration = testInjector.resolve("config");
+			config.debugLivesync = true;
+			let spawnFromEventCount = childProcess.spawnFromEventCount;
+			await androidProjectService.afterPrepareAllPlugins(projectData);
+			assert.isTrue(spawnFromEventCount === childProcess.spawnFromEventCount);
+		});
 	});
 });
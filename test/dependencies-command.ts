@@ -0,0 +1,89 @@
+import { Yok } from "../lib/common/yok";
+import { DependenciesCommand } from "../lib/commands/dependencies";
+import * as fsLib from "../lib/common/file-system";
+import * as stubs from "./stubs";
+import { assert } from "chai";
+import * as path from "path";
+import * as fs from "fs";
+
+let temp = require("temp");
+temp.track();
+
+describe("Dependencies command", () => {
+	let projectDir: string,
+		options: any,
+		testInjector: IInjector,
+		fileSystem: IFileSystem;
+
+	let addPackage = (directory: string, name: string, version: string, dependencies?: IStringDictionary, packageJsonData?: any): void => {
+		fileSystem.writeJson(path.join(directory, "package.json"), _.extend({ name, version, dependencies: dependencies || {} }, packageJsonData));
+	};
+
+	let execute = async (): Promise<string> => {
+		let command: ICommand = testInjector.resolve(DependenciesCommand);
+		await command.execute([]);
+		return testInjector.resolve("logger").output;
+	};
+
+	before(() => {
+		require("colors");
+	});
+
+	beforeEach(() => {
+		projectDir = fs.realpathSync(temp.mkdirSync("dependencies-command"));
+		options = {};
+
+		testInjector = new Yok();
+		testInjector.register("injector", testInjector);
+		testInjector.register("fs", fsLib.FileSystem);
+		testInjector.register("logger", stubs.LoggerStub);
+		testInjector.register("errors", stubs.ErrorsStub);
+		testInjector.register("options", options);
+		testInjector.register("projectData", {
+			projectDir,
+			projectName: "app",
+			initializeProjectData: (): void => undefined
+		});
+		fileSystem = testInjector.resolve("fs");
+
+		let nodeModulesPath = path.join(projectDir, "node_modules");
+		addPackage(projectDir, "app", "1.0.0", { "nativescript-plugin": "1.0.0", "lodash": "4.0.0" });
+		addPackage(path.join(nodeModulesPath, "nativescript-plugin"), "nativescript-plugin", "1.0.0", { "lodash": "3.0.0" }, { nativescript: { platforms: { android: "3.0.0" } } });
+		addPackage(path.join(nodeModulesPath, "nativescript-plugin", "node_modules", "lodash"), "lodash", "3.0.0");
+		addPackage(path.join(nodeModulesPath, "lodash"), "lodash", "4.0.0");
+	});
+
+	it("prints the dependency tree with the plugins and the packages in multiple versions", async () => {
+		let output = await execute();
+
+		assert.include(output, "nativescript-plugin@1.0.0 - depth 0");
+		assert.include(output, "NativeScript plugin");
+		assert.include(output, `lodash@3.0.0 - depth 1, ${path.join("node_modules", "nativescript-plugin", "node_modules", "lodash")}`);
+		assert.include(output, "multiple versions");
+	});
+
+	it("prints the chains which include a package", async () => {
+		options.why = "lodash";
+
+		let output = await execute();
+
+		assert.include(output, "app > nativescript-plugin@1.0.0 > lodash@3.0.0");
+		assert.include(output, "app > lodash@4.0.0");
+	});
+
+	it("prints the dependencies and the duplicates in JSON format", async () => {
+		options.json = true;
+
+		let result = JSON.parse(await execute());
+
+		assert.deepEqual(_.map(result.dependencies, (dependency: any) => `${dependency.name}@${dependency.version}`), ["nativescript-plugin@1.0.0", "lodash@3.0.0", "lodash@4.0.0"]);
+		assert.isTrue(result.dependencies[0].isPlugin);
+		assert.deepEqual(result.duplicates, { lodash: ["3.0.0", "4.0.0"] });
+	});
+
+	it("fails when the package is not a production dependency", async () => {
+		options.why = "typescript";
+
+		await assert.isRejected(execute(), "typescript is not copied to tns_modules");
+	});
+});
@@ -410,6 +410,114 @@ describe("Cocoapods support", () => {
 	}
 });
 
+describe("Pod install", () => {
+	if (require("os").platform() === "win32") {
+		console.log("Skipping pod install tests. They cannot run on Windows.");
+		return;
+	}
+
+	let projectName = "projectDirectory";
+	let projectPath: string,
+		platformsFolderPath: string,
+		originalPath: string,
+		options: any,
+		fs: IFileSystem,
+		iOSProjectService: IPlatformProjectService,
+		projectData: IProjectData;
+
+	// The fake pod executable records each call and creates the Podfile.lock and the Pods directory as pod install does.
+	let fakePod = [
+		"#!/bin/sh",
+		"echo install >> pod-calls.txt",
+		"echo 'PODFILE CHECKSUM: 1' > Podfile.lock",
+		"mkdir -p Pods",
+		"cp Podfile.lock Pods/Manifest.lock"
+	].join("\n");
+
+	let getPodInstallsCount = (): number => {
+		let podCallsPath = path.join(platformsFolderPath, "pod-calls.txt");
+		return fs.exists(podCallsPath) ? fs.readText(podCallsPath).trim().split("\n").length : 0;
+	};
+
+	beforeEach(() => {
+		projectPath = temp.mkdirSync(projectName);
+		platformsFolderPath = path.join(projectPath, "platforms", "ios");
+		options = { forcePods: false };
+
+		let testInjector = createTestInjector(projectPath, projectName);
+		testInjector.register("options", options);
+		testInjector.register("xcprojService", {
+			verifyXcproj: async (): Promise<boolean> => false,
+			getXcprojInfo: async (): Promise<any> => ({ shouldUseXcproj: false })
+		});
+		fs = testInjector.resolve("fs");
+		projectData = testInjector.resolve("projectData");
+
+		let childProcess: IChildProcess = testInjector.resolve("childProcess");
+		childProcess.exec = async (): Promise<any> => "";
+
+		let fakeBinPath = temp.mkdirSync("fake-bin");
+		fs.writeFile(path.join(fakeBinPath, "pod"), fakePod);
+		require("fs").chmodSync(path.join(fakeBinPath, "pod"), "755");
+		originalPath = process.env.PATH;
+		process.env.PATH = `${fakeBinPath}${path.delimiter}${originalPath}`;
+
+		fs.writeFile(path.join(platformsFolderPath, "Podfile"), `use_frameworks!\n\ntarget "${projectName}" do\npod 'GoogleMaps'\nend`);
+		fs.createDirectory(path.join(platformsFolderPath, `${projectName}.xcodeproj`, "xcuserdata"));
+		iOSProjectService = testInjector.resolve("iOSProjectService");
+	});
+
+	afterEach(() => {
+		process.env.PATH = originalPath;
+	});
+
+	let prepare = async (): Promise<void> => {
+		await iOSProjectService.afterPrepareAllPlugins(projectData);
+		await iOSProjectService.installNativeDependencies(projectData);
+	};
+
+	it("skips pod install when the Podfile and the Podfile.lock have not changed", async () => {
+		await prepare();
+		await prepare();
+
+		assert.equal(getPodInstallsCount(), 1);
+	});
+
+	it("runs pod install when the Podfile has changed or the Pods directory is missing", async () => {
+		await prepare();
+
+		fs.writeFile(path.join(platformsFolderPath, "Podfile"), `use_frameworks!\n\ntarget "${projectName}" do\npod 'GoogleMaps'\npod 'AFNetworking'\nend`);
+		await prepare();
+		assert.equal(getPodInstallsCount(), 2);
+
+		fs.deleteDirectory(path.join(platformsFolderPath, "Pods"));
+		await prepare();
+		assert.equal(getPodInstallsCount(), 3);
+	});
+
+	it("runs pod install when --force-pods is set", async () => {
+		await prepare();
+
+		options.forcePods = true;
+		await prepare();
+
+		assert.equal(getPodInstallsCount(), 2);
+	});
+
+	it("runs pod install when --force-pods is set or the Pods directory is missing, even if the plugins are not prepared", async () => {
+		await prepare();
+
+		options.forcePods = true;
+		await iOSProjectService.installNativeDependencies(projectData);
+		assert.equal(getPodInstallsCount(), 2);
+
+		options.forcePods = false;
+		fs.deleteDirectory(path.join(platformsFolderPath, "Pods"));
+		await iOSProjectService.installNativeDependencies(projectData);
+		assert.equal(getPodInstallsCount(), 3);
+	});
+});
+
 describe("Static libraries support", () => {
 	if (require("os").platform() !== "darwin") {
 		console.log("Skipping static library tests. They work only on darwin.");
@@ -0,0 +1,169 @@
+import { Yok } from "../lib/common/yok";
+import { NodeModulesDependenciesBuilder } from "../lib/tools/node-modules/node-modules-dependencies-builder";
+import * as fsLib from "../lib/common/file-system";
+import * as stubs from "./stubs";
+import { DependencyWarningTypes } from "../lib/constants";
+import { assert } from "chai";
+import * as path from "path";
+import * as fs from "fs";
+
+let temp = require("temp");
+temp.track();
+
+describe("Node Modules Dependencies Builder", () => {
+	let workspaceRoot: string,
+		projectDir: string,
+		testInjector: IInjector,
+		fileSystem: IFileSystem;
+
+	let addPackage = (directory: string, name: string, dependencies?: IStringDictionary, packageJsonData?: any): void => {
+		fileSystem.writeJson(path.join(directory, "package.json"), _.extend({ name, version: "1.0.0", dependencies: dependencies || {} }, packageJsonData));
+	};
+
+	let link = (target: string, linkPath: string): void => {
+		fileSystem.ensureDirectoryExists(path.dirname(linkPath));
+		fs.symlinkSync(target, linkPath, "junction");
+	};
+
+	let dependenciesBuilder: INodeModulesDependenciesBuilder;
+
+	let getProductionDependencies = (): IDictionary<any> => {
+		dependenciesBuilder = testInjector.resolve(NodeModulesDependenciesBuilder);
+		let dependencies = dependenciesBuilder.getProductionDependencies(projectDir);
+		return _.keyBy(dependencies, (dependency: any) => dependency.name);
+	};
+
+	beforeEach(() => {
+		workspaceRoot = fs.realpathSync(temp.mkdirSync("node-modules-dependencies-builder"));
+		projectDir = path.join(workspaceRoot, "packages", "app");
+
+		testInjector = new Yok();
+		testInjector.register("fs", fsLib.FileSystem);
+		testInjector.register("logger", stubs.LoggerStub);
+		fileSystem = testInjector.resolve("fs");
+	});
+
+	it("resolves the dependencies nested in the directories of their parents", () => {
+		addPackage(projectDir, "app", { "nativescript-plugin": "1.0.0" });
+		addPackage(path.join(projectDir, "node_modules", "nativescript-plugin"), "nativescript-plugin", { "lodash": "4.0.0" });
+		addPackage(path.join(projectDir, "node_modules", "nativescript-plugin", "node_modules", "lodash"), "lodash");
+
+		let dependencies = getProductionDependencies();
+
+		assert.equal(dependencies["nativescript-plugin"].depth, 0);
+		assert.equal(dependencies["lodash"].depth, 1);
+	});
+
+	it("resolves the dependencies hoisted to the workspace root", () => {
+		addPackage(workspaceRoot, "workspace", {}, { workspaces: ["packages/*"] });
+		addPackage(projectDir, "app", { "nativescript-plugin": "1.0.0" });
+		addPackage(path.join(workspaceRoot, "node_modules", "nativescript-plugin"), "nativescript-plugin", { "lodash": "4.0.0" });
+		addPackage(path.join(workspaceRoot, "node_modules", "lodash"), "lodash");
+
+		let dependencies = getProductionDependencies();
+
+		assert.equal(dependencies["nativescript-plugin"].directory, path.join(workspaceRoot, "node_modules", "nativescript-plugin"));
+		assert.equal(dependencies["lodash"].depth, 0);
+	});
+
+	it("does not look for dependencies outside of the project when it is not in a workspace", () => {
+		addPackage(projectDir, "app", { "lodash": "4.0.0" });
+		addPackage(path.join(workspaceRoot, "node_modules", "lodash"), "lodash");
+
+		assert.deepEqual(getProductionDependencies(), {});
+	});
+
+	it("resolves the dependencies up to the configured workspace root", () => {
+		addPackage(projectDir, "app", { "lodash": "4.0.0" }, { nativescript: { workspaceRoot: "../.." } });
+		addPackage(path.join(workspaceRoot, "node_modules", "lodash"), "lodash");
+
+		assert.isDefined(getProductionDependencies()["lodash"]);
+	});
+
+	it("follows the symlinks of the pnpm store", () => {
+		let storePath = path.join(projectDir, "node_modules", ".pnpm");
+		addPackage(projectDir, "app", { "nativescript-plugin": "1.0.0" });
+		addPackage(path.join(storePath, "nativescript-plugin@1.0.0", "node_modules", "nativescript-plugin"), "nativescript-plugin", { "lodash": "4.0.0" });
+		addPackage(path.join(storePath, "lodash@4.0.0", "node_modules", "lodash"), "lodash");
+		link(path.join(storePath, "nativescript-plugin@1.0.0", "node_modules", "nativescript-plugin"), path.join(projectDir, "node_modules", "nativescript-plugin"));
+		link(path.join(storePath, "lodash@4.0.0", "node_modules", "lodash"), path.join(storePath, "nativescript-plugin@1.0.0", "node_modules", "lodash"));
+
+		let dependencies = getProductionDependencies();
+
+		assert.equal(dependencies["nativescript-plugin"].directory, path.join(storePath, "nativescript-plugin@1.0.0", "node_modules", "nativescript-plugin"));
+		assert.equal(dependencies["lodash"].directory, path.join(storePath, "lodash@4.0.0", "node_modules", "lodash"));
+		assert.equal(dependencies["lodash"].depth, 0);
+	});
+
+	it("resolves the local packages referenced with the file: and workspace: protocols", () => {
+		addPackage(workspaceRoot, "workspace", {}, { workspaces: { packages: ["packages/*"] } });
+		addPackage(projectDir, "app", { "shared": "workspace:*", "local-plugin": "file:../../plugins/local-plugin" });
+		addPackage(path.join(workspaceRoot, "packages", "shared"), "shared");
+		addPackage(path.join(workspaceRoot, "plugins", "local-plugin"), "local-plugin");
+
+		let dependencies = getProductionDependencies();
+
+		assert.equal(dependencies["shared"].directory, path.join(workspaceRoot, "packages", "shared"));
+		assert.equal(dependencies["local-plugin"].directory, path.join(workspaceRoot, "plugins", "local-plugin"));
+	});
+
+	it("includes the installed optional dependencies", () => {
+		addPackage(projectDir, "app", { "nativescript-plugin": "1.0.0" });
+		addPackage(path.join(projectDir, "node_modules", "nativescript-plugin"), "nativescript-plugin", {}, { optionalDependencies: { "native-helper": "1.0.0", "missing-helper": "1.0.0" } });
+		addPackage(path.join(projectDir, "node_modules", "native-helper"), "native-helper");
+
+		let dependencies = getProductionDependencies();
+
+		assert.isDefined(dependencies["native-helper"]);
+		assert.isUndefined(dependencies["missing-helper"]);
+	});
+
+	it("resolves the peer dependencies against the tree of the consumer", () => {
+		addPackage(projectDir, "app", { "nativescript-plugin": "1.0.0" });
+		addPackage(path.join(projectDir, "node_modules", "nativescript-plugin"), "nativescript-plugin", {}, { nativescript: {}, peerDependencies: { "tns-core-modules": "^3.0.0" } });
+		fileSystem.writeJson(path.join(projectDir, "node_modules", "tns-core-modules", "package.json"), { name: "tns-core-modules", version: "3.0.1" });
+
+		let dependencies = getProductionDependencies();
+
+		assert.equal(dependencies["tns-core-modules"].directory, path.join(projectDir, "node_modules", "tns-core-modules"));
+		assert.deepEqual(dependenciesBuilder.getUnmetPeerDependencies(), []);
+	});
+
+	it("reports the unmet peer dependencies of the plugins", () => {
+		addPackage(projectDir, "app", { "nativescript-plugin": "1.0.0", "other-package": "1.0.0" });
+		addPackage(path.join(projectDir, "node_modules", "nativescript-plugin"), "nativescript-plugin", {}, { nativescript: {}, peerDependencies: { "tns-core-modules": "^3.0.0", "nativescript-angular": "^3.0.0" } });
+		addPackage(path.join(projectDir, "node_modules", "other-package"), "other-package", {}, { peerDependencies: { "react": "^15.0.0" } });
+		fileSystem.writeJson(path.join(projectDir, "node_modules", "tns-core-modules", "package.json"), { name: "tns-core-modules", version: "2.5.0" });
+
+		getProductionDependencies();
+
+		assert.deepEqual(dependenciesBuilder.getUnmetPeerDependencies(), [
+			{ name: "nativescript-plugin", version: "1.0.0", peerDependencyName: "tns-core-modules", range: "^3.0.0", installedVersion: "2.5.0" },
+			{ name: "nativescript-plugin", version: "1.0.0", peerDependencyName: "nativescript-angular", range: "^3.0.0", installedVersion: null }
+		]);
+	});
+
+	it("includes the cyclic dependencies once and reports the cycle", () => {
+		addPackage(projectDir, "app", { "a": "1.0.0" });
+		addPackage(path.join(projectDir, "node_modules", "a"), "a", { "b": "1.0.0" });
+		addPackage(path.join(projectDir, "node_modules", "b"), "b", { "a": "1.0.0" });
+
+		dependenciesBuilder = testInjector.resolve(NodeModulesDependenciesBuilder);
+		let dependencies = dependenciesBuilder.getProductionDependencies(projectDir);
+
+		assert.deepEqual(_.map(dependencies, (dependency: any) => dependency.name).sort(), ["a", "b"]);
+		assert.deepEqual(dependenciesBuilder.getWarnings(), [
+			{ type: DependencyWarningTypes.CYCLE, message: "Cyclic production dependencies: a → b → a.", packages: ["a", "b", "a"] }
+		]);
+	});
+
+	it("does not report the peer dependencies on a consumer as cycles", () => {
+		addPackage(projectDir, "app", { "nativescript-angular": "3.0.0" });
+		addPackage(path.join(projectDir, "node_modules", "nativescript-angular"), "nativescript-angular", { "nativescript-plugin": "1.0.0" });
+		addPackage(path.join(projectDir, "node_modules", "nativescript-plugin"), "nativescript-plugin", {}, { nativescript: {}, peerDependencies: { "nativescript-angular": "^1.0.0" } });
+
+		getProductionDependencies();
+
+		assert.deepEqual(dependenciesBuilder.getWarnings(), []);
+	});
+});
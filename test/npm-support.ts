@@ -20,6 +20,8 @@ import { DeviceAppDataFactory } from "../lib/common/mobile/device-app-data/devic
 import { LocalToDevicePathDataFactory } from "../lib/common/mobile/local-to-device-path-data-factory";
 import { MobileHelper } from "../lib/common/mobile/mobile-helper";
 import { ProjectFilesProvider } from "../lib/providers/project-files-provider";
+import { ProjectIgnoreService } from "../lib/services/project-ignore-service";
+import { ProjectQualifiersService } from "../lib/services/project-qualifiers-service";
 import { DeviceAppDataProvider } from "../lib/providers/device-app-data-provider";
 import { MobilePlatformsCapabilities } from "../lib/mobile-platforms-capabilities";
 import { DevicePlatformsConstants } from "../lib/common/mobile/device-platforms-constants";
@@ -73,12 +75,15 @@ function createTestInjector(): IInjector {
 	testInjector.register("localToDevicePathDataFactory", LocalToDevicePathDataFactory);
 	testInjector.register("mobileHelper", MobileHelper);
 	testInjector.register("projectFilesProvider", ProjectFilesProvider);
+	testInjector.register("projectIgnoreService", ProjectIgnoreService);
+	testInjector.register("projectQualifiersService", ProjectQualifiersService);
 	testInjector.register("deviceAppDataProvider", DeviceAppDataProvider);
 	testInjector.register("mobilePlatformsCapabilities", MobilePlatformsCapabilities);
 	testInjector.register("devicePlatformsConstants", DevicePlatformsConstants);
 	testInjector.register("xmlValidator", XmlValidator);
 	testInjector.register("config", StaticConfigLib.Configuration);
 	testInjector.register("projectChangesService", ProjectChangesLib.ProjectChangesService);
+	testInjector.register("buildArtifactsCacheService", stubs.BuildArtifactsCacheService);
 	testInjector.register("emulatorPlatformService", stubs.EmulatorPlatformService);
 	testInjector.register("analyticsService", {
 		track: async () => undefined
@@ -153,6 +158,7 @@ async function setupProject(dependencies?: any): Promise<any> {
 				prepareProject: (): any => null,
 				prepareAppResources: (): any => null,
 				afterPrepareAllPlugins: () => Promise.resolve(),
+				installNativeDependencies: () => Promise.resolve(),
 				beforePrepareAllPlugins: () => Promise.resolve(),
 				getAppResourcesDestinationDirectoryPath: () => path.join(androidFolderPath, "src", "main", "res"),
 				processConfigurationFilesFromAppResources: () => Promise.resolve(),
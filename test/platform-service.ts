@@ -2,7 +2,7 @@ import * as yok from "../lib/common/yok";
 import * as stubs from "./stubs";
 import * as PlatformServiceLib from "../lib/services/platform-service";
 import * as StaticConfigLib from "../lib/config";
-import { VERSION_STRING } from "../lib/constants";
+import { VERSION_STRING, PrepareStages } from "../lib/constants";
 import * as fsLib from "../lib/common/file-system";
 import * as optionsLib from "../lib/options";
 import * as hostInfoLib from "../lib/common/host-info";
@@ -13,6 +13,8 @@ import { DeviceAppDataFactory } from "../lib/common/mobile/device-app-data/devic
 import { LocalToDevicePathDataFactory } from "../lib/common/mobile/local-to-device-path-data-factory";
 import { MobileHelper } from "../lib/common/mobile/mobile-helper";
 import { ProjectFilesProvider } from "../lib/providers/project-files-provider";
+import { ProjectIgnoreService } from "../lib/services/project-ignore-service";
+import { ProjectQualifiersService } from "../lib/services/project-qualifiers-service";
 import { DeviceAppDataProvider } from "../lib/providers/device-app-data-provider";
 import { MobilePlatformsCapabilities } from "../lib/mobile-platforms-capabilities";
 import { DevicePlatformsConstants } from "../lib/common/mobile/device-platforms-constants";
@@ -20,6 +22,7 @@ import { XmlValidator } from "../lib/xml-validator";
 import * as ChildProcessLib from "../lib/common/child-process";
 import ProjectChangesLib = require("../lib/services/project-changes-service");
 import { Messages } from "../lib/common/messages/messages";
+import { BuildCommandBase } from "../lib/commands/build";
 
 require("should");
 let temp = require("temp");
@@ -49,6 +52,10 @@ function createTestInjector() {
 	testInjector.register("nodeModulesBuilder", {
 		prepareNodeModules: () => {
 			return Promise.resolve();
+		},
+		copyNodeModules: (): Promise<IResolvedDependencyData[]> => Promise.resolve([]),
+		preparePlugins: () => {
+			return Promise.resolve();
 		}
 	});
 	testInjector.register("pluginsService", {
@@ -69,6 +76,8 @@ function createTestInjector() {
 	testInjector.register("localToDevicePathDataFactory", LocalToDevicePathDataFactory);
 	testInjector.register("mobileHelper", MobileHelper);
 	testInjector.register("projectFilesProvider", ProjectFilesProvider);
+	testInjector.register("projectIgnoreService", ProjectIgnoreService);
+	testInjector.register("projectQualifiersService", ProjectQualifiersService);
 	testInjector.register("deviceAppDataProvider", DeviceAppDataProvider);
 	testInjector.register("mobilePlatformsCapabilities", MobilePlatformsCapabilities);
 	testInjector.register("devicePlatformsConstants", DevicePlatformsConstants);
@@ -80,6 +89,7 @@ function createTestInjector() {
 	});
 	testInjector.register("childProcess", ChildProcessLib.ChildProcess);
 	testInjector.register("projectChangesService", ProjectChangesLib.ProjectChangesService);
+	testInjector.register("buildArtifactsCacheService", stubs.BuildArtifactsCacheService);
 	testInjector.register("emulatorPlatformService", stubs.EmulatorPlatformService);
 	testInjector.register("analyticsService", {
 		track: async () => undefined
@@ -299,8 +309,10 @@ describe('Platform Service Tests', () => {
 
 	describe("prepare platform unit tests", () => {
 		let fs: IFileSystem;
+		let nativeDependenciesInstallations: number;
 
 		beforeEach(() => {
+			nativeDependenciesInstallations = 0;
 			testInjector = createTestInjector();
 			testInjector.register("fs", fsLib.FileSystem);
 			fs = testInjector.resolve("fs");
@@ -359,7 +371,10 @@ describe('Platform Service Tests', () => {
 						processConfigurationFilesFromAppResources: () => Promise.resolve(),
 						ensureConfigurationFileInAppResources: (): any => null,
 						interpolateConfigurationFile: (): void => undefined,
-						isPlatformPrepared: (projectRoot: string) => false
+						isPlatformPrepared: (projectRoot: string) => false,
+						installNativeDependencies: async () => {
+							nativeDependenciesInstallations++;
+						}
 					}
 				};
 			};
@@ -406,6 +421,71 @@ describe('Platform Service Tests', () => {
 			await testPreparePlatform("Android", true);
 		});
 
+		it("executes the prepare stage handlers in the order of the stages", async () => {
+			let executedStages: string[] = [];
+			let transformedFiles: string[] = [];
+			platformService = testInjector.resolve("platformService");
+			_.each([PrepareStages.PROCESS_CONFIGURATION_FILES, PrepareStages.COPY_APP_FILES, PrepareStages.PREPARE_PLUGINS], stage => {
+				platformService.registerPrepareStageHandler({
+					stage,
+					before: async (data: IPrepareStageData) => {
+						executedStages.push(`before ${data.stage}`);
+					},
+					after: async (data: IPrepareStageData) => {
+						executedStages.push(`after ${data.stage}`);
+					}
+				});
+			});
+			platformService.registerPrepareStageHandler({
+				stage: PrepareStages.COPY_APP_FILES,
+				transformFile: async (filePath: string) => {
+					transformedFiles.push(path.basename(filePath));
+				}
+			});
+
+			await testPreparePlatform("Android");
+
+			assert.deepEqual(executedStages, [
+				`before ${PrepareStages.COPY_APP_FILES}`, `after ${PrepareStages.COPY_APP_FILES}`,
+				`before ${PrepareStages.PREPARE_PLUGINS}`, `after ${PrepareStages.PREPARE_PLUGINS}`,
+				`before ${PrepareStages.PROCESS_CONFIGURATION_FILES}`, `after ${PrepareStages.PROCESS_CONFIGURATION_FILES}`
+			]);
+			assert.deepEqual(transformedFiles.sort(), ["test1-ios-js", "test1.ios.js", "test2-android-js", "test2.android.js"]);
+		});
+
+		it("installs the native dependencies on every prepare, even if the plugins have not changed", async () => {
+			await testPreparePlatform("iOS");
+			let projectData = testInjector.resolve("projectData");
+			await platformService.preparePlatform("iOS", { bundle: false, release: false }, "", projectData, { provision: null, sdk: null });
+
+			assert.equal(nativeDependenciesInstallations, 2);
+		});
+
+		it("does not copy again the platform specific files which have not changed", async () => {
+			await testPreparePlatform("iOS");
+			let copiedFiles: string[] = null;
+			platformService.registerPrepareStageHandler({
+				stage: PrepareStages.COPY_APP_FILES,
+				after: async (data: IPrepareStageData) => {
+					copiedFiles = data.files;
+				}
+			});
+			let projectChangesService = testInjector.resolve("projectChangesService");
+			projectChangesService.checkForChanges = (): IProjectChangesInfo => <IProjectChangesInfo>{ hasChanges: true, appFilesChanged: true };
+			let projectData = testInjector.resolve("projectData");
+			await platformService.preparePlatform("iOS", { bundle: false, release: false }, "", projectData, { provision: null, sdk: null });
+
+			assert.deepEqual(copiedFiles, []);
+			assert.isTrue(fs.exists(path.join(projectData.projectDir, "appDest", "app", "test1.js")));
+			assert.isFalse(fs.exists(path.join(projectData.projectDir, "appDest", "app", "test2.js")));
+		});
+
+		it("fails when a handler is registered for an unknown prepare stage", () => {
+			platformService = testInjector.resolve("platformService");
+
+			assert.throws(() => platformService.registerPrepareStageHandler({ stage: "unknown" }));
+		});
+
 		it("invalid xml is caught", async () => {
 			require("colors");
 			let testDirData = prepareDirStructure();
@@ -432,7 +512,10 @@ describe('Platform Service Tests', () => {
 						processConfigurationFilesFromAppResources: () => Promise.resolve(),
 						ensureConfigurationFileInAppResources: (): any => null,
 						interpolateConfigurationFile: (): void => undefined,
-						isPlatformPrepared: (projectRoot: string) => false
+						isPlatformPrepared: (projectRoot: string) => false,
+						installNativeDependencies: async () => {
+							nativeDependenciesInstallations++;
+						}
 					}
 				};
 			};
@@ -455,4 +538,54 @@ describe('Platform Service Tests', () => {
 			assert.isFalse(warnings.indexOf("has errors") !== -1);
 		});
 	});
+
+	describe("build platform unit tests", () => {
+		let restoredFingerprints: string[];
+		let builtProjects: string[];
+
+		beforeEach(() => {
+			restoredFingerprints = [];
+			builtProjects = [];
+			testInjector.register("appSizeService", {});
+
+			let buildArtifactsCacheService = testInjector.resolve("buildArtifactsCacheService");
+			buildArtifactsCacheService.getFingerprint = () => "fingerprint";
+			buildArtifactsCacheService.restoreArtifact = (fingerprint: string) => {
+				restoredFingerprints.push(fingerprint);
+				return true;
+			};
+
+			let platformsData = testInjector.resolve("platformsData");
+			let platformData = platformsData.getPlatformData("android");
+			platformData.getValidPackageNames = () => ["app-debug.apk"];
+			platformData.platformProjectService.buildProject = async (projectRoot: string) => {
+				builtProjects.push(projectRoot);
+			};
+			platformsData.getPlatformData = () => platformData;
+
+			let fs = testInjector.resolve("fs");
+			fs.readDirectory = () => ["app-debug.apk"];
+			fs.getFsStats = () => ({ mtime: new Date() });
+
+			testInjector.resolve("projectChangesService").getPrepareInfo = () => ({ changesRequireBuildTime: new Date().toString() });
+			platformService.preparePlatform = async (): Promise<IProjectChangesInfo> => null;
+		});
+
+		it("restores the application package from the build cache on tns build", async () => {
+			let buildCommand: BuildCommandBase = testInjector.resolve(BuildCommandBase);
+			await buildCommand.executeCore(["android"]);
+
+			assert.deepEqual(restoredFingerprints, ["fingerprint"]);
+			assert.deepEqual(builtProjects, []);
+		});
+
+		it("builds the application package on tns build --clean even if it is in the build cache", async () => {
+			testInjector.resolve("options").clean = true;
+			let buildCommand: BuildCommandBase = testInjector.resolve(BuildCommandBase);
+			await buildCommand.executeCore(["android"]);
+
+			assert.deepEqual(restoredFingerprints, []);
+			assert.deepEqual(builtProjects, [""]);
+		});
+	});
 });
@@ -0,0 +1,71 @@
+import { Yok } from "../lib/common/yok";
+import { PluginCreateService } from "../lib/services/plugin-create-service";
+import * as fsLib from "../lib/common/file-system";
+import * as stubs from "./stubs";
+import { assert } from "chai";
+import * as path from "path";
+
+let temp = require("temp");
+temp.track();
+
+describe("Plugin create service", () => {
+	let pathToPlugin: string,
+		fileSystem: IFileSystem,
+		pluginCreateService: IPluginCreateService,
+		createdProjects: IProjectSettings[];
+
+	beforeEach(() => {
+		pathToPlugin = temp.mkdirSync("plugin-create-service");
+		createdProjects = [];
+
+		let testInjector = new Yok();
+		testInjector.register("errors", stubs.ErrorsStub);
+		testInjector.register("fs", fsLib.FileSystem);
+		testInjector.register("logger", stubs.LoggerStub);
+		testInjector.register("resources", {
+			resolvePath: (resourcePath: string): string => path.join(__dirname, "..", "resources", resourcePath)
+		});
+		testInjector.register("staticConfig", { PROJECT_FILE_NAME: "package.json", version: "3.0.1" });
+		testInjector.register("projectService", {
+			createProject: async (projectSettings: IProjectSettings): Promise<void> => {
+				createdProjects.push(projectSettings);
+				fileSystem.writeJson(path.join(projectSettings.pathToProject, projectSettings.projectName, "package.json"), { dependencies: { "tns-core-modules": "3.0.0" } });
+			}
+		});
+
+		fileSystem = testInjector.resolve("fs");
+		pluginCreateService = testInjector.resolve(PluginCreateService);
+	});
+
+	it("creates the package.json, the entry points and the native files of the plugin", async () => {
+		let pluginDir = await pluginCreateService.createPlugin({ pluginName: "nativescript-google-maps", pathToPlugin, variables: { "API_KEY": "", "REGION": "eu" } });
+
+		assert.equal(pluginDir, path.join(pathToPlugin, "nativescript-google-maps"));
+		let packageJson = fileSystem.readJson(path.join(pluginDir, "package.json"));
+		assert.equal(packageJson.main, "index");
+		assert.deepEqual(packageJson.nativescript, {
+			platforms: { android: "3.0.0", ios: "3.0.0" },
+			variables: { "API_KEY": {}, "REGION": { defaultValue: "eu" } }
+		});
+
+		_.each(["index.common.ts", "index.android.ts", "index.ios.ts", "index.d.ts", "platforms/android/include.gradle", "platforms/ios/Podfile"], fileName => {
+			assert.isTrue(fileSystem.exists(path.join(pluginDir, fileName)), `${fileName} is not created.`);
+		});
+		assert.include(fileSystem.readText(path.join(pluginDir, "index.android.ts")), "export class GoogleMaps extends GoogleMapsCommon");
+		assert.include(fileSystem.readText(path.join(pluginDir, "platforms", "android", "include.gradle")), `"nativescript-google-maps" {`);
+		assert.include(fileSystem.readText(path.join(pluginDir, "platforms", "android", "AndroidManifest.xml")), `<meta-data android:name="nativescript-google-maps.API_KEY" android:value="{API_KEY}" />`);
+		assert.include(fileSystem.readText(path.join(pluginDir, "platforms", "ios", "Info.plist")), "<key>REGION</key>\n\t<string>{REGION}</string>");
+	});
+
+	it("creates a demo app which depends on the plugin", async () => {
+		let pluginDir = await pluginCreateService.createPlugin({ pluginName: "@scope/nativescript-camera", pathToPlugin });
+
+		assert.equal(pluginDir, path.join(pathToPlugin, "nativescript-camera"));
+		assert.deepEqual(_.map(createdProjects, projectSettings => _.pick(projectSettings, ["projectName", "pathToProject"])), [{ projectName: "demo", pathToProject: pluginDir }]);
+		assert.deepEqual(fileSystem.readJson(path.join(pluginDir, "demo", "package.json")).dependencies, { "tns-core-modules": "3.0.0", "@scope/nativescript-camera": "file:.." });
+	});
+
+	it("fails when the name of the plugin is not a valid npm package name", async () => {
+		await assert.isRejected(pluginCreateService.createPlugin({ pluginName: "My Plugin", pathToPlugin }), "My Plugin is not a valid npm package name. Use lowercase letters, digits, dashes, dots and underscores.");
+	});
+});
@@ -5,22 +5,35 @@ require("should");
 
 class TestNpmPluginPrepare extends NpmPluginPrepare {
 	public preparedDependencies: IDictionary<boolean> = {};
+	public removedDependencies: string[] = [];
 
-	constructor(private previouslyPrepared: IDictionary<boolean>) {
-		super(null, null, null);
+	constructor(private previouslyPrepared: IDictionary<any>) {
+		super(null, <any>{ prepare: async (): Promise<void> => undefined }, null, null);
 	}
 
-	protected getPreviouslyPreparedDependencies(platform: string): IDictionary<boolean> {
+	protected getPreviouslyPreparedDependencies(platform: string): IDictionary<any> {
 		return this.previouslyPrepared;
 	}
 
-	protected async beforePrepare(dependencies: IDictionary<IDependencyData>, platform: string): Promise<void> {
-		_.values(dependencies).forEach(d => {
+	protected getPreparedDependencyInfo(dependency: any, platform: string, projectData: IProjectData): any {
+		return { version: dependency.version, directory: dependency.name, isPlugin: !!dependency.nativescript, hash: "hash" };
+	}
+
+	protected async beforePrepare(dependencies: IDependencyData[], platform: string): Promise<void> {
+		dependencies.forEach(d => {
 			this.preparedDependencies[d.name] = true;
 		});
 	}
 
-	protected async afterPrepare(dependencies: IDictionary<IDependencyData>, platform: string): Promise<void> {
+	protected async afterPrepare(dependencies: IDependencyData[], platform: string): Promise<void> {
+		// DO NOTHING
+	}
+
+	protected async removeNativeCode(dependency: IDependencyData, platform: string, projectData: IProjectData): Promise<void> {
+		this.removedDependencies.push(dependency.name);
+	}
+
+	protected writePreparedDependencyInfo(preparedDependencies: IDictionary<any>, platform: string, projectData: IProjectData): void {
 		// DO NOTHING
 	}
 }
@@ -28,39 +41,67 @@ class TestNpmPluginPrepare extends NpmPluginPrepare {
 describe("Plugin preparation", () => {
 	it("skips prepare if no plugins", async () => {
 		const pluginPrepare = new TestNpmPluginPrepare({});
-		await pluginPrepare.preparePlugins({}, "android", null);
+		await pluginPrepare.preparePlugins([], "android", null);
 		assert.deepEqual({}, pluginPrepare.preparedDependencies);
 	});
 
 	it("skips prepare if every plugin prepared", async () => {
-		const pluginPrepare = new TestNpmPluginPrepare({ "tns-core-modules-widgets": true });
-		const testDependencies: IDictionary<IDependencyData> = {
-			"0": {
+		const pluginPrepare = new TestNpmPluginPrepare({ "tns-core-modules-widgets": { version: "1.0.0", directory: "tns-core-modules-widgets", isPlugin: false, hash: "hash" } });
+		const testDependencies: IDependencyData[] = [
+			{
 				name: "tns-core-modules-widgets",
 				version: "1.0.0",
 				nativescript: null,
 			}
-		};
+		];
 		await pluginPrepare.preparePlugins(testDependencies, "android", null);
 		assert.deepEqual({}, pluginPrepare.preparedDependencies);
 	});
 
 	it("saves prepared plugins after preparation", async () => {
-		const pluginPrepare = new TestNpmPluginPrepare({ "tns-core-modules-widgets": true });
-		const testDependencies: IDictionary<IDependencyData> = {
-			"0": {
+		const pluginPrepare = new TestNpmPluginPrepare({ "tns-core-modules-widgets": { version: "1.0.0", directory: "tns-core-modules-widgets", isPlugin: false, hash: "hash" } });
+		const testDependencies: IDependencyData[] = [
+			{
 				name: "tns-core-modules-widgets",
 				version: "1.0.0",
 				nativescript: null,
 			},
-			"1": {
+			{
 				name: "nativescript-calendar",
 				version: "1.0.0",
 				nativescript: null,
 			}
-		};
+		];
 		await pluginPrepare.preparePlugins(testDependencies, "android", null);
 		const prepareData = { "tns-core-modules-widgets": true, "nativescript-calendar": true };
 		assert.deepEqual(prepareData, pluginPrepare.preparedDependencies);
 	});
+
+	it("prepares again the plugins prepared in another version and the ones recorded by older CLI versions", async () => {
+		const pluginPrepare = new TestNpmPluginPrepare({ "nativescript-calendar": { version: "1.0.0", directory: "nativescript-calendar", isPlugin: true, hash: "hash" }, "nativescript-camera": true });
+		const testDependencies: IDependencyData[] = [
+			{
+				name: "nativescript-calendar",
+				version: "2.0.0",
+				nativescript: {},
+			},
+			{
+				name: "nativescript-camera",
+				version: "1.0.0",
+				nativescript: {},
+			}
+		];
+		await pluginPrepare.preparePlugins(testDependencies, "android", null);
+		assert.deepEqual(pluginPrepare.removedDependencies, ["nativescript-calendar"]);
+		assert.deepEqual(pluginPrepare.preparedDependencies, { "nativescript-calendar": true, "nativescript-camera": true });
+	});
+
+	it("removes the native code of the plugins which are no longer dependencies", async () => {
+		const pluginPrepare = new TestNpmPluginPrepare({
+			"nativescript-calendar": { version: "1.0.0", directory: "nativescript-calendar", isPlugin: true, hash: "hash" },
+			"lodash": { version: "4.0.0", directory: "lodash", isPlugin: false, hash: "hash" }
+		});
+		await pluginPrepare.preparePlugins([], "android", null);
+		assert.deepEqual(pluginPrepare.removedDependencies, ["nativescript-calendar"]);
+	});
 });
@@ -126,6 +126,23 @@ describe("Plugin Variables service", () => {
 			let projectFileContent = fs.readJson(path.join(projectData.projectDir, "package.json"));
 			assert.equal(pluginVariableValue, projectFileContent[staticConfig.CLIENT_NAME_KEY_IN_PROJECT_FILE][`${pluginData.name}-variables`]["MY_APP_ID"]);
 		});
+		it("does not save the secret values read from the environment", async () => {
+			await createProjectFile(testInjector);
+			process.env.MY_TEST_PLUGIN_API_KEY = "keyFromEnvironment";
+
+			let pluginData = createPluginData({ "API_KEY": { env: "MY_TEST_PLUGIN_API_KEY", secret: true }, "APP_NAME": { defaultValue: "myApp" } });
+			let pluginVariablesService: IPluginVariablesService = testInjector.resolve("pluginVariablesService");
+			let projectData: IProjectData = testInjector.resolve("projectData");
+			projectData.initializeProjectData();
+			try {
+				await pluginVariablesService.savePluginVariablesInProjectFile(pluginData, projectData);
+			} finally {
+				delete process.env.MY_TEST_PLUGIN_API_KEY;
+			}
+
+			let projectFileContent = testInjector.resolve("fs").readJson(path.join(projectData.projectDir, "package.json"));
+			assert.deepEqual(projectFileContent["nativescript"][`${pluginData.name}-variables`], { "APP_NAME": "myApp" });
+		});
 		it("does not fail when default value is specified", async () => {
 			await createProjectFile(testInjector);
 
@@ -359,5 +376,73 @@ describe("Plugin Variables service", () => {
 
 			assert.equal(result, expectedResult);
 		});
+
+		it("interpolates the release value when the values differ by build configuration", async () => {
+			let tempFolder = await createProjectFile(testInjector);
+			testInjector.resolve("options").release = true;
+
+			let projectData: IProjectData = testInjector.resolve("projectData");
+			projectData.initializeProjectData();
+			let fs: IFileSystem = testInjector.resolve("fs");
+			testInjector.resolve("projectDataService").setNSValue(projectData.projectDir, "myTestPlugin-variables", { "API_URL": { "debug": "http://localhost", "release": "https://example.com" } });
+
+			let filePath = path.join(tempFolder, "myfile");
+			fs.writeFile(filePath, '<meta-data android:name="url" android:value="{API_URL}" />');
+
+			let pluginVariablesService: IPluginVariablesService = testInjector.resolve("pluginVariablesService");
+			await pluginVariablesService.interpolatePluginVariables(createPluginData({ "API_URL": {} }), filePath, projectData);
+
+			assert.equal(fs.readText(filePath), '<meta-data android:name="url" android:value="https://example.com" />');
+		});
+
+		it("interpolates the value of the environment variable and an empty value for optional variables", async () => {
+			let tempFolder = await createProjectFile(testInjector);
+			process.env.MY_TEST_PLUGIN_API_KEY = "keyFromEnvironment";
+
+			let projectData: IProjectData = testInjector.resolve("projectData");
+			projectData.initializeProjectData();
+			let fs: IFileSystem = testInjector.resolve("fs");
+			let filePath = path.join(tempFolder, "myfile");
+			fs.writeFile(filePath, "{API_KEY};{REGION}");
+
+			let pluginVariablesService: IPluginVariablesService = testInjector.resolve("pluginVariablesService");
+			try {
+				await pluginVariablesService.interpolatePluginVariables(createPluginData({ "API_KEY": { env: "MY_TEST_PLUGIN_API_KEY", secret: true }, "REGION": { required: false } }), filePath, projectData);
+			} finally {
+				delete process.env.MY_TEST_PLUGIN_API_KEY;
+			}
+
+			assert.equal(fs.readText(filePath), "keyFromEnvironment;");
+		});
+
+		it("fails when the value does not match the declaration of the variable", async () => {
+			let tempFolder = await createProjectFile(testInjector);
+
+			let projectData: IProjectData = testInjector.resolve("projectData");
+			projectData.initializeProjectData();
+			let fs: IFileSystem = testInjector.resolve("fs");
+			testInjector.resolve("projectDataService").setNSValue(projectData.projectDir, "myTestPlugin-variables", { "PORT": "http", "MODE": "fast", "APP_ID": "1234" });
+
+			let filePath = path.join(tempFolder, "myfile");
+			fs.writeFile(filePath, "");
+
+			let pluginVariablesService: IPluginVariablesService = testInjector.resolve("pluginVariablesService");
+			let pluginVariables = { "PORT": { type: "number" }, "MODE": { enum: ["debug", "release"] }, "APP_ID": { pattern: "^[a-z]+$", secret: true } };
+			let pluginData = createPluginData(pluginVariables);
+
+			assert.equal(pluginVariablesService.validatePluginVariableValue(pluginData, "PORT", "http"), "The value http of PORT plugin variable from myTestPlugin plugin is not a number.");
+			assert.equal(pluginVariablesService.validatePluginVariableValue(pluginData, "MODE", "fast"), "The value fast of MODE plugin variable from myTestPlugin plugin is not one of debug, release.");
+			assert.equal(pluginVariablesService.validatePluginVariableValue(pluginData, "APP_ID", "1234"), "The value of APP_ID plugin variable from myTestPlugin plugin does not match the pattern ^[a-z]+$.");
+			assert.isNull(pluginVariablesService.validatePluginVariableValue(pluginData, "PORT", "8080"));
+
+			let error: string = null;
+			try {
+				await pluginVariablesService.interpolatePluginVariables(pluginData, filePath, projectData);
+			} catch (err) {
+				error = err.message;
+			}
+
+			assert.equal(error, "The value http of PORT plugin variable from myTestPlugin plugin is not a number.");
+		});
 	});
 });
@@ -27,6 +27,8 @@ import { DeviceAppDataFactory } from "../lib/common/mobile/device-app-data/devic
 import { LocalToDevicePathDataFactory } from "../lib/common/mobile/local-to-device-path-data-factory";
 import { MobileHelper } from "../lib/common/mobile/mobile-helper";
 import { ProjectFilesProvider } from "../lib/providers/project-files-provider";
+import { ProjectIgnoreService } from "../lib/services/project-ignore-service";
+import { ProjectQualifiersService } from "../lib/services/project-qualifiers-service";
 import { DeviceAppDataProvider } from "../lib/providers/device-app-data-provider";
 import { MobilePlatformsCapabilities } from "../lib/mobile-platforms-capabilities";
 import { DevicePlatformsConstants } from "../lib/common/mobile/device-platforms-constants";
@@ -82,7 +84,11 @@ function createTestInjector() {
 	testInjector.register("projectFilesManager", ProjectFilesManager);
 	testInjector.register("pluginVariablesService", {
 		savePluginVariablesInProjectFile: (pluginData: IPluginData) => Promise.resolve(),
-		interpolatePluginVariables: (pluginData: IPluginData, pluginConfigurationFileContent: string) => Promise.resolve(pluginConfigurationFileContent)
+		interpolatePluginVariables: (pluginData: IPluginData, pluginConfigurationFileContent: string) => Promise.resolve(pluginConfigurationFileContent),
+		removePluginVariablesFromProjectFile: (pluginName: string, projectData: IProjectData) => { /* intentionally empty body */ },
+		getPluginVariablePropertyName: (pluginName: string) => `${pluginName}-variables`,
+		getPluginVariablesValues: (pluginData: IPluginData, projectData: IProjectData) => testInjector.resolve("projectDataService").getNSValue(projectData.projectDir, `${pluginData.name}-variables`) || {},
+		validatePluginVariableValue: (pluginData: IPluginData, pluginVariableName: string, value: string): string => null
 	});
 	testInjector.register("npmInstallationManager", NpmInstallationManager);
 
@@ -90,6 +96,8 @@ function createTestInjector() {
 	testInjector.register("localToDevicePathDataFactory", LocalToDevicePathDataFactory);
 	testInjector.register("mobileHelper", MobileHelper);
 	testInjector.register("projectFilesProvider", ProjectFilesProvider);
+	testInjector.register("projectIgnoreService", ProjectIgnoreService);
+	testInjector.register("projectQualifiersService", ProjectQualifiersService);
 	testInjector.register("deviceAppDataProvider", DeviceAppDataProvider);
 	testInjector.register("mobilePlatformsCapabilities", MobilePlatformsCapabilities);
 	testInjector.register("devicePlatformsConstants", DevicePlatformsConstants);
@@ -538,4 +546,153 @@ describe("Plugins service", () => {
 			await pluginsService.prepare(pluginJsonData, "android", projectData);
 		});
 	});
+
+	describe("plugin info", () => {
+		it("shows the metadata and the native contents of an installed plugin", async () => {
+			let pluginName = "nativescript-maps";
+			let projectFolder = createProjectFile(testInjector);
+			let pluginFolderPath = path.join(projectFolder, "node_modules", pluginName);
+			let fs: IFileSystem = testInjector.resolve("fs");
+			fs.writeJson(path.join(pluginFolderPath, "package.json"), {
+				"name": pluginName,
+				"version": "1.0.0",
+				"nativescript": {
+					"platforms": {
+						"ios": "2.5.0"
+					},
+					"variables": {
+						"API_KEY": { "defaultValue": "default-key" },
+						"REGION": {}
+					}
+				}
+			});
+			fs.writeFile(path.join(pluginFolderPath, "platforms", "ios", "Podfile"), "pod 'GoogleMaps'");
+			fs.writeFile(path.join(pluginFolderPath, "platforms", "ios", "GoogleMaps.framework", "Info.plist"), "");
+			fs.writeFile(path.join(pluginFolderPath, "platforms", "android", "libs", "maps.aar"), "");
+			testInjector.resolve("projectDataService").setNSValue(projectFolder, `${pluginName}-variables`, { "API_KEY": "project-key" });
+
+			let projectData: IProjectData = testInjector.resolve("projectData");
+			projectData.initializeProjectData();
+			let pluginInfo = await testInjector.resolve("pluginsService").getPluginInfo(pluginName, projectData);
+
+			assert.deepEqual(_.pick(pluginInfo, ["name", "version", "isInstalled", "isPlugin"]), { name: pluginName, version: "1.0.0", isInstalled: true, isPlugin: true });
+			assert.deepEqual(_.map(pluginInfo.platforms, (platformInfo: IPluginPlatformInfo) => _.extend({}, platformInfo, { nativeContents: _.sortBy(platformInfo.nativeContents, "path") })), [
+				{
+					platform: "ios",
+					isSupported: true,
+					minimumRuntimeVersion: "2.5.0",
+					nativeContents: [{ type: "Framework", path: "GoogleMaps.framework" }, { type: "Podfile", path: "Podfile" }]
+				},
+				{
+					platform: "android",
+					isSupported: false,
+					minimumRuntimeVersion: null,
+					nativeContents: [{ type: "AAR", path: path.join("libs", "maps.aar") }]
+				}
+			]);
+			assert.deepEqual(pluginInfo.variables, [
+				{ name: "API_KEY", defaultValue: "default-key", value: "project-key" },
+				{ name: "REGION", defaultValue: null, value: null }
+			]);
+		});
+	});
+
+	describe("plugin check", () => {
+		it("reports the incompatible plugins, the missing variables and the conflicting native files", async () => {
+			let projectFolder = createProjectFile(testInjector);
+			let fs: IFileSystem = testInjector.resolve("fs");
+			let addPlugin = (pluginName: string, nativescript: any, podfileContent: string): void => {
+				let pluginFolderPath = path.join(projectFolder, "node_modules", pluginName);
+				fs.writeJson(path.join(pluginFolderPath, "package.json"), { name: pluginName, version: "1.0.0", nativescript });
+				fs.writeFile(path.join(pluginFolderPath, "platforms", "ios", "Podfile"), podfileContent);
+				fs.writeFile(path.join(pluginFolderPath, "platforms", "ios", "GoogleMaps.framework", "Info.plist"), "");
+			};
+
+			addPlugin("nativescript-maps", { platforms: { android: "1.5.0", ios: "2.0.0" }, variables: { "API_KEY": {} } }, "pod 'GoogleMaps', '2.0'");
+			addPlugin("nativescript-places", { platforms: { ios: "2.0.0" } }, "pod 'GoogleMaps', '2.1'\npod 'GooglePlaces'");
+			let packageJsonPath = path.join(projectFolder, "package.json");
+			fs.writeJson(packageJsonPath, _.extend(fs.readJson(packageJsonPath), { dependencies: { "nativescript-maps": "1.0.0", "nativescript-places": "1.0.0" } }));
+			fs.createDirectory(path.join(projectFolder, "platforms", "android"));
+
+			testInjector.resolve("platformsData").getPlatformData = (platform: string) => ({ frameworkPackageName: `tns-${platform}` });
+			let pluginsService: IPluginsService = testInjector.resolve("pluginsService");
+			pluginsService.ensureAllDependenciesAreInstalled = () => Promise.resolve();
+			let projectData: IProjectData = testInjector.resolve("projectData");
+			projectData.initializeProjectData();
+
+			let issues = await pluginsService.checkPlugins(projectData);
+
+			assert.deepEqual(_.map(issues, issue => _.pick(issue, ["type", "platform", "plugins"])), [
+				{ type: "incompatibleRuntime", platform: "android", plugins: ["nativescript-maps"] },
+				{ type: "missingVariable", platform: null, plugins: ["nativescript-maps"] },
+				{ type: "unsupportedPlatform", platform: "android", plugins: ["nativescript-places"] },
+				{ type: "duplicateLibrary", platform: "ios", plugins: ["nativescript-maps", "nativescript-places"] },
+				{ type: "conflictingPod", platform: "ios", plugins: ["nativescript-maps", "nativescript-places"] }
+			]);
+			assert.equal(_.last(issues).message, "The pod GoogleMaps is required in different versions: 2.0 by nativescript-maps, 2.1 by nativescript-places.");
+		});
+	});
+
+	describe("plugin link", () => {
+		let pluginName = "nativescript-maps";
+		let projectFolder: string;
+		let pluginFolder: string;
+		let fs: IFileSystem;
+		let pluginsService: IPluginsService;
+		let projectData: IProjectData;
+		let installedDependencies: number;
+
+		let getDependencies = () => fs.readJson(path.join(projectFolder, "package.json")).dependencies;
+
+		beforeEach(() => {
+			projectFolder = createProjectFile(testInjector);
+			pluginFolder = temp.mkdirSync("linkedPlugin");
+			fs = testInjector.resolve("fs");
+			fs.writeJson(path.join(pluginFolder, "package.json"), { name: pluginName, version: "2.0.0", nativescript: { platforms: { android: "3.0.0" } } });
+			installedDependencies = 0;
+
+			pluginsService = testInjector.resolve("pluginsService");
+			pluginsService.ensureAllDependenciesAreInstalled = async (): Promise<void> => {
+				installedDependencies++;
+			};
+			projectData = testInjector.resolve("projectData");
+			projectData.initializeProjectData();
+		});
+
+		it("links the plugin over the installed one and restores the installed one when it is unlinked", async () => {
+			let packageJsonPath = path.join(projectFolder, "package.json");
+			fs.writeJson(packageJsonPath, _.extend(fs.readJson(packageJsonPath), { dependencies: { [pluginName]: "~1.0.0" } }));
+			fs.writeJson(path.join(projectFolder, "node_modules", pluginName, "package.json"), { name: pluginName, version: "1.0.0", nativescript: {} });
+
+			await pluginsService.link(pluginFolder, projectData);
+
+			assert.equal(require("fs").realpathSync(path.join(projectFolder, "node_modules", pluginName)), require("fs").realpathSync(pluginFolder));
+			let relativePluginPath = path.relative(projectFolder, pluginFolder).split(path.sep).join("/");
+			assert.deepEqual(getDependencies(), { [pluginName]: `file:${relativePluginPath}` });
+			assert.deepEqual(pluginsService.getLinkedPlugins(projectData), [{ name: pluginName, directory: pluginFolder, previousVersion: "~1.0.0" }]);
+
+			await pluginsService.unlink(pluginName, projectData);
+
+			assert.isFalse(fs.exists(path.join(projectFolder, "node_modules", pluginName)));
+			assert.isTrue(fs.exists(path.join(pluginFolder, "package.json")));
+			assert.deepEqual(getDependencies(), { [pluginName]: "~1.0.0" });
+			assert.deepEqual(pluginsService.getLinkedPlugins(projectData), []);
+			assert.equal(installedDependencies, 2);
+		});
+
+		it("removes the plugin when it is unlinked and it was not a dependency before it was linked", async () => {
+			await pluginsService.link(pluginFolder, projectData);
+			await pluginsService.unlink(pluginName, projectData);
+
+			assert.deepEqual(getDependencies(), {});
+			assert.isUndefined(fs.readJson(path.join(projectFolder, "package.json")).nativescript.linkedPlugins);
+			assert.isTrue(fs.exists(path.join(pluginFolder, "package.json")));
+		});
+
+		it("fails when the directory is not a NativeScript plugin", async () => {
+			fs.writeJson(path.join(pluginFolder, "package.json"), { name: pluginName, version: "2.0.0" });
+
+			await assert.isRejected(pluginsService.link(pluginFolder, projectData), `${pluginFolder} is not a valid NativeScript plugin. Verify that the plugin package.json file contains a nativescript key and try again.`);
+		});
+	});
 });
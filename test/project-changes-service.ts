@@ -0,0 +1,199 @@
+import { Yok } from "../lib/common/yok";
+import { ProjectChangesService } from "../lib/services/project-changes-service";
+import { ProjectIgnoreService } from "../lib/services/project-ignore-service";
+import { DevicePlatformsConstants } from "../lib/common/mobile/device-platforms-constants";
+import * as fsLib from "../lib/common/file-system";
+import * as stubs from "./stubs";
+import { assert } from "chai";
+import * as path from "path";
+import * as fs from "fs";
+
+let temp = require("temp");
+temp.track();
+
+const changesOptions: IProjectChangesOptions = { bundle: false, release: false, provision: null };
+
+function createTestInjector(projectDir: string): IInjector {
+	let testInjector = new Yok();
+	testInjector.register("fs", fsLib.FileSystem);
+	testInjector.register("logger", stubs.LoggerStub);
+	testInjector.register("devicePlatformsConstants", DevicePlatformsConstants);
+	testInjector.register("projectDataService", {
+		getNSValue: (dir: string, propertyName: string): any => null
+	});
+	testInjector.register("projectIgnoreService", ProjectIgnoreService);
+	testInjector.register("platformsData", {
+		getPlatformData: (platform: string) => {
+			return {
+				projectRoot: path.join(projectDir, "platforms", "android"),
+				appDestinationDirectoryPath: path.join(projectDir, "platforms", "android", "src", "main", "assets"),
+				normalizedPlatformName: "Android",
+				configurationFileName: "AndroidManifest.xml"
+			};
+		}
+	});
+
+	return testInjector;
+}
+
+describe("Project Changes Service", () => {
+	let projectData: IProjectData,
+		fileSystem: IFileSystem,
+		projectChangesService: IProjectChangesService,
+		appFilePath: string;
+
+	beforeEach(() => {
+		let projectDir = temp.mkdirSync("project-changes");
+		let testInjector = createTestInjector(projectDir);
+		fileSystem = testInjector.resolve("fs");
+
+		projectData = <any>{
+			projectDir,
+			appDirectoryPath: path.join(projectDir, "app"),
+			appResourcesDirectoryPath: path.join(projectDir, "app", "App_Resources")
+		};
+
+		appFilePath = path.join(projectData.appDirectoryPath, "main-page.js");
+		fileSystem.writeFile(appFilePath, "console.log('main page');");
+		fileSystem.writeFile(path.join(projectData.appResourcesDirectoryPath, "Android", "app.gradle"), "android {}");
+		fileSystem.writeJson(path.join(projectDir, "node_modules", "plugin", "package.json"), { name: "plugin", nativescript: {} });
+		fileSystem.writeFile(path.join(projectDir, "node_modules", "plugin", "platforms", "android", "include.gradle"), "");
+		fileSystem.writeFile(path.join(projectDir, "node_modules", "plugin", "index.js"), "");
+		fileSystem.writeJson(path.join(projectDir, "node_modules", "linter", "package.json"), { name: "linter" });
+		fileSystem.writeJson(path.join(projectDir, "package.json"), { dependencies: { plugin: "1.0.0" }, devDependencies: { linter: "1.0.0" } });
+		fileSystem.createDirectory(path.join(projectDir, "platforms", "android"));
+
+		projectChangesService = testInjector.resolve(ProjectChangesService);
+
+		// Initial prepare and a consecutive one that records the hashes of all files.
+		projectChangesService.savePrepareInfo("android", projectData, projectChangesService.checkForChanges("android", projectData, changesOptions));
+		projectChangesService.savePrepareInfo("android", projectData, projectChangesService.checkForChanges("android", projectData, changesOptions));
+	});
+
+	function moveTimestamps(filePath: string): void {
+		let future = Date.now() / 1000 + 60;
+		fs.utimesSync(filePath, future, future);
+	}
+
+	it("records the hashes of the tracked files", () => {
+		let prepareInfo = projectChangesService.getPrepareInfo("android", projectData);
+		assert.isOk(prepareInfo.filesHashes[path.join("app", "main-page.js")]);
+		assert.isOk(prepareInfo.filesHashes["package.json"]);
+	});
+
+	it("does not report changes when only the timestamps of a file have moved", () => {
+		moveTimestamps(appFilePath);
+		moveTimestamps(path.join(projectData.projectDir, "package.json"));
+
+		let changesInfo = projectChangesService.checkForChanges("android", projectData, changesOptions);
+
+		assert.isFalse(changesInfo.hasChanges);
+	});
+
+	it("reports changes when the content of a file has changed", () => {
+		fs.writeFileSync(appFilePath, "console.log('changed main page');");
+		moveTimestamps(appFilePath);
+
+		let changesInfo = projectChangesService.checkForChanges("android", projectData, changesOptions);
+
+		assert.isTrue(changesInfo.appFilesChanged);
+		assert.isFalse(changesInfo.appResourcesChanged);
+		assert.deepEqual(changesInfo.reasons, [{ changeType: "appFilesChanged", description: "File content has changed.", file: path.join("app", "main-page.js") }]);
+	});
+
+	it("reports changes when a file is removed", () => {
+		fs.unlinkSync(appFilePath);
+
+		let changesInfo = projectChangesService.checkForChanges("android", projectData, changesOptions);
+
+		assert.isTrue(changesInfo.appFilesChanged);
+		assert.deepEqual(changesInfo.reasons, [{ changeType: "appFilesChanged", description: "File has been removed.", file: path.join("app", "main-page.js") }]);
+	});
+
+	it("does not report native changes when the configuration is switched", () => {
+		let changesInfo = projectChangesService.checkForChanges("android", projectData, { bundle: false, release: true, provision: null });
+
+		assert.isTrue(changesInfo.appFilesChanged);
+		assert.isTrue(changesInfo.modulesChanged);
+		assert.isTrue(changesInfo.configChanged);
+		assert.isFalse(changesInfo.appResourcesChanged);
+		assert.isFalse(changesInfo.changesRequireBuild);
+		assert.deepEqual(_.map(changesInfo.reasons, reason => reason.description), [
+			"Previous prepare was for the debug configuration, current one is for release.",
+			"Project has not been prepared for the release configuration yet.",
+			"Project has not been prepared for the release configuration yet.",
+			"Node modules or App_Resources have changed."
+		]);
+	});
+
+	it("restores the prepared app when switching back to a configuration", () => {
+		let preparedAppFilePath = path.join(projectData.projectDir, "platforms", "android", "src", "main", "assets", "app", "main-page.js");
+		fileSystem.writeFile(preparedAppFilePath, "console.log('main page');");
+
+		let releaseChangesInfo = projectChangesService.checkForChanges("android", projectData, { bundle: false, release: true, provision: null });
+		projectChangesService.savePrepareInfo("android", projectData, releaseChangesInfo);
+		assert.isFalse(fs.existsSync(preparedAppFilePath));
+
+		let changesInfo = projectChangesService.checkForChanges("android", projectData, changesOptions);
+
+		assert.isTrue(fs.existsSync(preparedAppFilePath));
+		assert.isFalse(changesInfo.appFilesChanged);
+		assert.isFalse(changesInfo.modulesChanged);
+		assert.isTrue(changesInfo.configChanged);
+	});
+
+	it("keeps the changes of separate checks independent", () => {
+		let unchangedInfo = projectChangesService.checkForChanges("android", projectData, changesOptions);
+
+		fs.writeFileSync(appFilePath, "console.log('changed main page');");
+		moveTimestamps(appFilePath);
+		let changedInfo = projectChangesService.checkForChanges("android", projectData, changesOptions);
+
+		assert.isFalse(unchangedInfo.hasChanges);
+		assert.deepEqual(unchangedInfo.reasons, []);
+		assert.isTrue(changedInfo.appFilesChanged);
+		assert.notStrictEqual(unchangedInfo.prepareInfo, changedInfo.prepareInfo);
+	});
+
+	it("reports changes of the app files when the excluded files have changed", () => {
+		fileSystem.writeFile(path.join(projectData.projectDir, ".nsignore"), "fixtures");
+
+		let changesInfo = projectChangesService.checkForChanges("android", projectData, changesOptions);
+
+		assert.isTrue(changesInfo.appFilesChanged);
+		assert.deepEqual(_.map(changesInfo.reasons, reason => reason.description), ["The excluded app files have changed."]);
+	});
+
+	it("reports native changes when the platforms directory of a production plugin has changed", () => {
+		let includeGradlePath = path.join(projectData.projectDir, "node_modules", "plugin", "platforms", "android", "include.gradle");
+		fs.writeFileSync(includeGradlePath, "android {}");
+		moveTimestamps(includeGradlePath);
+
+		let changesInfo = projectChangesService.checkForChanges("android", projectData, changesOptions);
+
+		assert.isTrue(changesInfo.nativeChanged);
+		assert.isTrue(changesInfo.modulesChanged);
+	});
+
+	it("does not report native changes when a JavaScript file of a production dependency has changed", () => {
+		let indexPath = path.join(projectData.projectDir, "node_modules", "plugin", "index.js");
+		fs.writeFileSync(indexPath, "module.exports = {};");
+		moveTimestamps(indexPath);
+
+		let changesInfo = projectChangesService.checkForChanges("android", projectData, changesOptions);
+
+		assert.isFalse(changesInfo.nativeChanged);
+		assert.isTrue(changesInfo.modulesChanged);
+	});
+
+	it("does not report changes when a devDependency has changed", () => {
+		let linterPackageJsonPath = path.join(projectData.projectDir, "node_modules", "linter", "package.json");
+		fs.writeFileSync(linterPackageJsonPath, JSON.stringify({ name: "linter", version: "2.0.0" }));
+		moveTimestamps(linterPackageJsonPath);
+
+		let changesInfo = projectChangesService.checkForChanges("android", projectData, changesOptions);
+
+		assert.isFalse(changesInfo.hasChanges);
+		assert.isFalse(changesInfo.nativeChanged);
+	});
+});
@@ -1,5 +1,7 @@
 import { Yok } from "../lib/common/yok";
 import { ProjectFilesProvider } from "../lib/providers/project-files-provider";
+import { ProjectQualifiersService } from "../lib/services/project-qualifiers-service";
+import * as stubs from "./stubs";
 import { assert } from "chai";
 import * as path from "path";
 
@@ -30,7 +32,16 @@ function createTestInjector(): IInjector {
 		projectDir: projectDir
 	});
 
-	testInjector.register("options", { release: false });
+	testInjector.register("options", { release: false, qualifiers: "tablet" });
+	testInjector.register("errors", stubs.ErrorsStub);
+	testInjector.register("projectDataService", {
+		getNSValue: (dir: string, propertyName: string): any => propertyName === "qualifiers" ? { environment: ["development", "staging"], device: ["phone", "tablet"] } : null
+	});
+	testInjector.register("projectQualifiersService", ProjectQualifiersService);
+
+	testInjector.register("projectIgnoreService", {
+		isExcluded: (relativeFilePath: string) => relativeFilePath === path.join("fixtures", "data.json")
+	});
 
 	return testInjector;
 }
@@ -52,6 +63,10 @@ describe("project-files-provider", () => {
 		it("returns false for .js files", () => {
 			assert.isFalse(projectFilesProvider.isFileExcluded("test.js"));
 		});
+
+		it("returns true for files excluded by the project", () => {
+			assert.isTrue(projectFilesProvider.isFileExcluded(path.join("fixtures", "data.json")));
+		});
 	});
 
 	describe("mapFilePath", () => {
@@ -90,5 +105,39 @@ describe("project-files-provider", () => {
 			let mappedFilePath = projectFilesProvider.mapFilePath(path.join(appSourceDir, "test.debug.js"), "android", projectData);
 			assert.deepEqual(mappedFilePath, path.join(appDestinationDirectoryPath, "app", "test.js"));
 		});
+
+		it("returns file path from prepared project when path from app dir is passed and it contains project-defined qualifiers in its name", () => {
+			let projectData: IProjectData = testInjector.resolve("projectData");
+			let mappedFilePath = projectFilesProvider.mapFilePath(path.join(appSourceDir, "main-page.tablet.android.xml"), "android", projectData);
+			assert.deepEqual(mappedFilePath, path.join(appDestinationDirectoryPath, "app", "main-page.xml"));
+		});
+	});
+
+	describe("getProjectFileInfo", () => {
+		it("includes the files with the selected and the default qualifiers", () => {
+			let projectFileInfo = projectFilesProvider.getProjectFileInfo(path.join(appSourceDir, "config.development.json"), "android");
+			assert.isTrue(projectFileInfo.shouldIncludeFile);
+			assert.equal(projectFileInfo.onDeviceFileName, "config.json");
+
+			projectFileInfo = projectFilesProvider.getProjectFileInfo(path.join(appSourceDir, "main-page.tablet.xml"), "android");
+			assert.isTrue(projectFileInfo.shouldIncludeFile);
+			assert.equal(projectFileInfo.onDeviceFileName, "main-page.xml");
+		});
+
+		it("does not apply the qualifiers to the files of the packages", () => {
+			let projectFileInfo = projectFilesProvider.getProjectFileInfo(path.join(projectDir, "node_modules", "moment", "locale.staging.js"), "android");
+			assert.isTrue(projectFileInfo.shouldIncludeFile);
+			assert.equal(projectFileInfo.onDeviceFileName, "locale.staging.js");
+
+			projectFileInfo = projectFilesProvider.getProjectFileInfo(path.join(projectDir, "platforms", "android", "app", "tns_modules", "moment", "locale.staging.js"), "android");
+			assert.isTrue(projectFileInfo.shouldIncludeFile);
+			assert.equal(projectFileInfo.onDeviceFileName, "locale.staging.js");
+		});
+
+		it("excludes the files with qualifiers which are not selected", () => {
+			assert.isFalse(projectFilesProvider.getProjectFileInfo(path.join(appSourceDir, "config.staging.json"), "android").shouldIncludeFile);
+			assert.isFalse(projectFilesProvider.getProjectFileInfo(path.join(appSourceDir, "main-page.phone.xml"), "android").shouldIncludeFile);
+			assert.isFalse(projectFilesProvider.getProjectFileInfo(path.join(appSourceDir, "main-page.tablet.ios.xml"), "android").shouldIncludeFile);
+		});
 	});
 });
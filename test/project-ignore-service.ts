@@ -0,0 +1,64 @@
+import { Yok } from "../lib/common/yok";
+import { ProjectIgnoreService } from "../lib/services/project-ignore-service";
+import * as fsLib from "../lib/common/file-system";
+import { assert } from "chai";
+import * as path from "path";
+
+let temp = require("temp");
+temp.track();
+
+describe("Project Ignore Service", () => {
+	let projectDir: string,
+		nativescriptExclude: any,
+		fileSystem: IFileSystem,
+		projectIgnoreService: IProjectIgnoreService;
+
+	beforeEach(() => {
+		projectDir = temp.mkdirSync("project-ignore");
+		nativescriptExclude = null;
+
+		let testInjector = new Yok();
+		testInjector.register("fs", fsLib.FileSystem);
+		testInjector.register("projectDataService", {
+			getNSValue: (dir: string, propertyName: string): any => nativescriptExclude
+		});
+
+		fileSystem = testInjector.resolve("fs");
+		projectIgnoreService = testInjector.resolve(ProjectIgnoreService);
+	});
+
+	it("excludes the tests and the source files only in release", () => {
+		assert.isFalse(projectIgnoreService.isExcluded(path.join("tests", "example.js"), projectDir, false));
+		assert.isFalse(projectIgnoreService.isExcluded("main-page.ts", projectDir, false));
+
+		assert.isTrue(projectIgnoreService.isExcluded(path.join("tests", "example.js"), projectDir, true));
+		assert.isTrue(projectIgnoreService.isExcluded("main-page.ts", projectDir, true));
+		assert.isFalse(projectIgnoreService.isExcluded(path.join("views", "tests", "main-page.js"), projectDir, true));
+	});
+
+	it("applies the sections of the ignore file to their configurations", () => {
+		fileSystem.writeFile(path.join(projectDir, ".nsignore"), ["# Design assets", "*.psd", "", "[release]", "/fixtures/", "[debug]", "docs/internal"].join("\n"));
+
+		assert.isTrue(projectIgnoreService.isExcluded(path.join("images", "logo.psd"), projectDir, false));
+		assert.isFalse(projectIgnoreService.isExcluded(path.join("fixtures", "data.json"), projectDir, false));
+		assert.isTrue(projectIgnoreService.isExcluded(path.join("docs", "internal", "readme.md"), projectDir, false));
+
+		assert.isTrue(projectIgnoreService.isExcluded(path.join("images", "logo.psd"), projectDir, true));
+		assert.isTrue(projectIgnoreService.isExcluded(path.join("fixtures", "data.json"), projectDir, true));
+		assert.isFalse(projectIgnoreService.isExcluded(path.join("docs", "internal", "readme.md"), projectDir, true));
+	});
+
+	it("applies the exclude patterns from package.json", () => {
+		nativescriptExclude = { all: ["docs"], release: ["fixtures"] };
+
+		assert.isTrue(projectIgnoreService.isExcluded(path.join("docs", "readme.md"), projectDir, false));
+		assert.isFalse(projectIgnoreService.isExcluded(path.join("fixtures", "data.json"), projectDir, false));
+		assert.isTrue(projectIgnoreService.isExcluded(path.join("fixtures", "data.json"), projectDir, true));
+	});
+
+	it("does not exclude files outside of the app directory", () => {
+		nativescriptExclude = ["*.json"];
+
+		assert.isFalse(projectIgnoreService.isExcluded(path.join("..", "package.json"), projectDir, false));
+	});
+});
@@ -0,0 +1,67 @@
+import { Yok } from "../lib/common/yok";
+import { ProjectQualifiersService } from "../lib/services/project-qualifiers-service";
+import * as stubs from "./stubs";
+import { assert } from "chai";
+
+describe("Project Qualifiers Service", () => {
+	let options: any,
+		nativescriptQualifiers: any,
+		projectQualifiersService: IProjectQualifiersService;
+
+	beforeEach(() => {
+		options = {};
+		nativescriptQualifiers = { environment: ["development", "Staging"], device: ["phone", "tablet"] };
+
+		let testInjector = new Yok();
+		testInjector.register("errors", stubs.ErrorsStub);
+		testInjector.register("options", options);
+		testInjector.register("projectDataService", {
+			getNSValue: (dir: string, propertyName: string): any => nativescriptQualifiers
+		});
+
+		projectQualifiersService = testInjector.resolve(ProjectQualifiersService);
+	});
+
+	it("selects the first qualifier of each group by default", () => {
+		assert.deepEqual(projectQualifiersService.getSelectedQualifiers("projectDir"), ["development", "phone"]);
+	});
+
+	it("selects the requested qualifiers", () => {
+		options.qualifiers = "staging, tablet";
+
+		assert.deepEqual(projectQualifiersService.getSelectedQualifiers("projectDir"), ["staging", "tablet"]);
+	});
+
+	it("does not have qualifiers when the project does not define any", () => {
+		nativescriptQualifiers = null;
+
+		assert.deepEqual(projectQualifiersService.getSelectedQualifiers("projectDir"), []);
+	});
+
+	it("fails when an unknown qualifier is requested", () => {
+		options.qualifiers = "production";
+
+		assert.throws(() => projectQualifiersService.getSelectedQualifiers("projectDir"), "Unknown qualifiers");
+	});
+
+	it("selects the debug or the release qualifier by the build configuration", () => {
+		nativescriptQualifiers = { configuration: ["release", "debug"], device: ["phone", "tablet"] };
+		assert.deepEqual(projectQualifiersService.getSelectedQualifiers("projectDir"), ["debug", "phone"]);
+
+		options.release = true;
+		assert.deepEqual(projectQualifiersService.getSelectedQualifiers("projectDir"), ["release", "phone"]);
+	});
+
+	it("fails when the debug or the release qualifier is requested", () => {
+		nativescriptQualifiers = { configuration: ["debug", "release"] };
+		options.qualifiers = "release";
+
+		assert.throws(() => projectQualifiersService.getSelectedQualifiers("projectDir"), "selected with the --release option");
+	});
+
+	it("fails when two qualifiers of the same group are requested", () => {
+		options.qualifiers = "phone,tablet";
+
+		assert.throws(() => projectQualifiersService.getSelectedQualifiers("projectDir"), "Only one of the device qualifiers");
+	});
+});
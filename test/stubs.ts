@@ -337,6 +337,9 @@ export class PlatformProjectServiceStub extends EventEmitter implements IPlatfor
 	async afterPrepareAllPlugins(): Promise<void> {
 		return Promise.resolve();
 	}
+	async installNativeDependencies(): Promise<void> {
+		return Promise.resolve();
+	}
 	async beforePrepareAllPlugins(): Promise<void> {
 		return Promise.resolve();
 	}
@@ -553,15 +556,30 @@ export class ProjectChangesService implements IProjectChangesService {
 		return null;
 	}
 
-	public savePrepareInfo(platform: string): void {
+	public savePrepareInfo(platform: string, projectData: IProjectData, changesInfo: IProjectChangesInfo): void {
 	}
 
 	public getPrepareInfoFilePath(platform: string): string {
 		return "";
 	}
 
-	public get currentChanges(): IProjectChangesInfo {
-		return <IProjectChangesInfo>{};
+	public getPrepareConfiguration(platform: string): string {
+		return "";
+	}
+}
+
+export class BuildArtifactsCacheService implements IBuildArtifactsCacheService {
+	public cacheDirectoryPath: string = null;
+
+	public getFingerprint(platform: string): string {
+		return null;
+	}
+
+	public restoreArtifact(fingerprint: string, buildOutputPath: string): boolean {
+		return false;
+	}
+
+	public storeArtifact(fingerprint: string, packagePath: string): void {
 	}
 }
 
@@ -616,14 +634,21 @@ export class PlatformServiceStub extends EventEmitter implements IPlatformServic
 		return Promise.resolve();
 	}
 
-	public preparePlatform(platform: string, appFilesUpdaterOptions: IAppFilesUpdaterOptions, platformTemplate: string): Promise<boolean> {
-		return Promise.resolve(true);
+	public preparePlatform(platform: string, appFilesUpdaterOptions: IAppFilesUpdaterOptions, platformTemplate: string): Promise<IProjectChangesInfo> {
+		return Promise.resolve(<IProjectChangesInfo>{ hasChanges: true });
 	}
 
-	public shouldBuild(platform: string, projectData: IProjectData, buildConfig?: IBuildConfig): Promise<boolean> {
+	public registerPrepareStageHandler(handler: IPrepareStageHandler): void {
+	}
+
+	public shouldBuild(platform: string, projectData: IProjectData, buildConfig?: IBuildConfig, changesInfo?: IProjectChangesInfo): Promise<boolean> {
 		return Promise.resolve(true);
 	}
 
+	public getBuildReason(platform: string, projectData: IProjectData, buildConfig?: IBuildConfig, changesInfo?: IProjectChangesInfo): Promise<string> {
+		return Promise.resolve("Build is required.");
+	}
+
 	public buildPlatform(platform: string, buildConfig?: IBuildConfig): Promise<void> {
 		return Promise.resolve();
 	}
@@ -0,0 +1,136 @@
+import { Yok } from "../lib/common/yok";
+import { TnsModulesCopy } from "../lib/tools/node-modules/node-modules-dest-copy";
+import * as fsLib from "../lib/common/file-system";
+import * as stubs from "./stubs";
+import { assert } from "chai";
+import * as path from "path";
+import * as fs from "fs";
+
+let temp = require("temp");
+temp.track();
+
+describe("TnsModulesCopy", () => {
+	let projectDir: string,
+		outputRoot: string,
+		tnsModulesRules: any,
+		fileSystem: IFileSystem,
+		tnsModulesCopy: TnsModulesCopy;
+
+	let addPackage = (name: string, version: string, files?: IStringDictionary): any => {
+		let directory = path.join(projectDir, "node_modules", name);
+		fileSystem.writeJson(path.join(directory, "package.json"), { name, version });
+		_.each(files || { "index.js": `module.exports = "${version}";` }, (content: string, file: string) => fileSystem.writeFile(path.join(directory, file), content));
+		return { name, directory, depth: 0 };
+	};
+
+	beforeEach(() => {
+		projectDir = fs.realpathSync(temp.mkdirSync("tns-modules-copy"));
+		tnsModulesRules = null;
+		outputRoot = path.join(projectDir, "platforms", "android", "app", "tns_modules");
+
+		let testInjector = new Yok();
+		testInjector.register("fs", fsLib.FileSystem);
+		testInjector.register("logger", stubs.LoggerStub);
+		testInjector.register("projectDataService", {
+			getNSValue: (dir: string, propertyName: string): any => tnsModulesRules
+		});
+
+		fileSystem = testInjector.resolve("fs");
+		tnsModulesCopy = testInjector.resolve(TnsModulesCopy, { outputRoot, manifestFilePath: path.join(projectDir, "platforms", "android", ".nstnsmodulesinfo"), projectDir });
+	});
+
+	it("copies the packages without their platforms directory", async () => {
+		let dependency = addPackage("nativescript-plugin", "1.0.0", { "index.js": "", "platforms/android/include.gradle": "" });
+
+		await tnsModulesCopy.copyModules([dependency], "android", false);
+
+		assert.isTrue(fileSystem.exists(path.join(outputRoot, "nativescript-plugin", "index.js")));
+		assert.isFalse(fileSystem.exists(path.join(outputRoot, "nativescript-plugin", "platforms")));
+	});
+
+	it("does not copy the tests, docs and type definitions of the packages in debug", async () => {
+		let dependency = addPackage("lodash", "4.17.4", { "index.js": "", "README.md": "", "index.d.ts": "", "index.ts": "", "index.js.map": "", "test/index.js": "", "docs/api.html": "" });
+
+		await tnsModulesCopy.copyModules([dependency], "android", false);
+
+		assert.deepEqual(fileSystem.readDirectory(path.join(outputRoot, "lodash")).sort(), ["index.js", "index.js.map", "index.ts", "package.json"]);
+	});
+
+	it("does not copy the tests, docs, sources and source maps of the packages in release", async () => {
+		let dependency = addPackage("lodash", "4.17.4", { "index.js": "", "README.md": "", "index.d.ts": "", "index.ts": "", "index.js.map": "", "test/index.js": "", "docs/api.html": "" });
+
+		await tnsModulesCopy.copyModules([dependency], "android", true);
+
+		assert.deepEqual(fileSystem.readDirectory(path.join(outputRoot, "lodash")).sort(), ["index.js", "package.json"]);
+	});
+
+	it("copies the packages again when the configuration changes", async () => {
+		let dependency = addPackage("lodash", "4.17.4", { "index.js": "", "index.js.map": "" });
+		await tnsModulesCopy.copyModules([dependency], "android", false);
+
+		await tnsModulesCopy.copyModules([dependency], "android", true);
+
+		assert.isFalse(fileSystem.exists(path.join(outputRoot, "lodash", "index.js.map")));
+	});
+
+	it("applies the configured copy rules", async () => {
+		tnsModulesRules = { exclude: ["locale/**"], include: ["docs/**"] };
+		let dependency = addPackage("moment", "2.18.1", { "moment.js": "", "locale/de.js": "", "docs/api.html": "" });
+
+		await tnsModulesCopy.copyModules([dependency], "android", true);
+
+		assert.deepEqual(fileSystem.readDirectory(path.join(outputRoot, "moment")).sort(), ["docs", "moment.js", "package.json"]);
+	});
+
+	it("copies only the published files of the packages", async () => {
+		let publishedDependency = addPackage("published", "1.0.0", { "lib/index.js": "", "src/index.js": "" });
+		fileSystem.writeJson(path.join(publishedDependency.directory, "package.json"), { name: "published", version: "1.0.0", files: ["lib"] });
+		let ignoringDependency = addPackage("ignoring", "1.0.0", { "index.js": "", "fixtures/data.json": "", ".npmignore": "fixtures/\n" });
+
+		await tnsModulesCopy.copyModules([publishedDependency, ignoringDependency], "android", false);
+
+		assert.deepEqual(fileSystem.readDirectory(path.join(outputRoot, "published")).sort(), ["lib", "package.json"]);
+		assert.deepEqual(fileSystem.readDirectory(path.join(outputRoot, "ignoring")).sort(), ["index.js", "package.json"]);
+	});
+
+	it("copies only the production dependencies from the nested node_modules", async () => {
+		let dependency = addPackage("nativescript-plugin", "1.0.0", { "index.js": "", "node_modules/lodash/index.js": "", "node_modules/typescript/index.js": "" });
+		let nestedDependency = { name: "lodash", directory: path.join(dependency.directory, "node_modules", "lodash"), depth: 1 };
+
+		await tnsModulesCopy.copyModules([dependency, nestedDependency], "android", false);
+
+		assert.deepEqual(fileSystem.readDirectory(path.join(outputRoot, "nativescript-plugin", "node_modules")), ["lodash"]);
+	});
+
+	it("does not copy the packages which have not changed", async () => {
+		let dependency = addPackage("lodash", "4.17.4");
+		await tnsModulesCopy.copyModules([dependency], "android", false);
+		fileSystem.writeFile(path.join(outputRoot, "lodash", "copied.txt"), "");
+
+		await tnsModulesCopy.copyModules([dependency], "android", false);
+
+		assert.isTrue(fileSystem.exists(path.join(outputRoot, "lodash", "copied.txt")));
+	});
+
+	it("copies again the packages whose version or contents have changed", async () => {
+		let dependency = addPackage("lodash", "4.17.4");
+		await tnsModulesCopy.copyModules([dependency], "android", false);
+
+		addPackage("lodash", "4.17.5", { "index.js": "module.exports = 'changed';" });
+		await tnsModulesCopy.copyModules([dependency], "android", false);
+
+		assert.equal(fileSystem.readJson(path.join(outputRoot, "lodash", "package.json")).version, "4.17.5");
+		assert.equal(fileSystem.readText(path.join(outputRoot, "lodash", "index.js")), "module.exports = 'changed';");
+	});
+
+	it("deletes the packages which are no longer dependencies", async () => {
+		let lodash = addPackage("lodash", "4.17.4");
+		let scopedPackage = addPackage("@angular/core", "2.4.0");
+		await tnsModulesCopy.copyModules([lodash, scopedPackage], "android", false);
+
+		await tnsModulesCopy.copyModules([lodash], "android", false);
+
+		assert.isTrue(fileSystem.exists(path.join(outputRoot, "lodash")));
+		assert.isFalse(fileSystem.exists(path.join(outputRoot, "@angular")));
+	});
+});